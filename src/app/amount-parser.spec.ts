@@ -0,0 +1,39 @@
+import { AmountParseError, formatAmount, parseAmount } from './amount-parser';
+
+describe('amount parser', () => {
+  it('should read amounts written in en-US', () => {
+    expect(parseAmount('1,234.50', 'en-US')).toBe('1234.50');
+    expect(parseAmount('1234.50', 'en-US')).toBe('1234.50');
+    expect(parseAmount('0.5', 'en-US')).toBe('0.5');
+    expect(parseAmount('.5', 'en-US')).toBe('0.5');
+    expect(parseAmount(' 007 ', 'en-US')).toBe('7');
+  });
+
+  it('should read amounts written in fr-CA', () => {
+    expect(parseAmount('1 234,50', 'fr-CA')).toBe('1234.50');
+    expect(parseAmount('1 234,50', 'fr-CA')).toBe('1234.50');
+    expect(parseAmount('1234.50', 'fr-CA')).toBe('1234.50');
+  });
+
+  it('should read amounts grouped the way the locale groups them', () => {
+    expect(parseAmount('1.234,5', 'de-DE')).toBe('1234.5');
+    expect(parseAmount('12,34,567', 'en-IN')).toBe('1234567');
+  });
+
+  it('should say what is wrong with an amount', () => {
+    expect(() => parseAmount('', 'en-US')).toThrowError(AmountParseError, 'Enter an amount');
+    expect(() => parseAmount('-5', 'en-US')).toThrowError(AmountParseError, /negative/);
+    expect(() => parseAmount('1.2.3', 'en-US')).toThrowError(AmountParseError, /one decimal separator/);
+    expect(() => parseAmount('12a', 'en-US')).toThrowError(AmountParseError, '"a" isn\'t allowed in an amount');
+    expect(() => parseAmount('1,23', 'en-US')).toThrowError(AmountParseError, /wrong place \(e\.g\. 1,234,567\)/);
+    expect(() => parseAmount('1.5,2', 'fr-CA')).toThrowError(AmountParseError, /one decimal separator/);
+    expect(() => parseAmount('1.5 2', 'fr-CA')).toThrowError(AmountParseError, /after the decimal separator/);
+  });
+
+  it('should write amounts the way the locale writes them', () => {
+    expect(formatAmount('1234567.50', 'en-US')).toBe('1,234,567.50');
+    expect(formatAmount('1234.5', 'fr-CA')).toBe('1 234,5');
+    expect(formatAmount('1234567', 'en-IN')).toBe('12,34,567');
+    expect(formatAmount('12', 'en-US')).toBe('12');
+  });
+});
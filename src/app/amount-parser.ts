@@ -0,0 +1,135 @@
+/**
+ * Thrown when the text entered for an amount can't be read as a number. The message says what's wrong with it, and is
+ * meant to be shown to the user.
+ */
+export class AmountParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AmountParseError';
+  }
+}
+
+/* How numbers are written in a locale */
+export interface AmountFormat {
+  /* e.g. "." in en-US, "," in fr-CA */
+  decimal: string;
+  /* e.g. "," in en-US, a (non-breaking) space in fr-CA */
+  group: string;
+  /* Digits in the group closest to the decimal separator (3 almost everywhere) */
+  primaryGroupSize: number;
+  /* Digits in the other groups (2 in en-IN, e.g. "12,34,567") */
+  secondaryGroupSize: number;
+}
+
+const formats = new Map<string, AmountFormat>();
+
+/* Works out how numbers are written in a locale, from the way the browser formats them */
+export function amountFormat(locale: string): AmountFormat {
+  if (!formats.has(locale)) {
+    // e.g. "1,234,567.5" in en-US, "12,34,567.5" in en-IN (always with latin digits, so that they can be told apart
+    // from separators)
+    const sample = new Intl.NumberFormat(`${locale}-u-nu-latn`).format(1234567.5);
+    const integers = sample.slice(0, -2).split(/\D+/);
+
+    formats.set(locale, {
+      decimal: sample.charAt(sample.length - 2),
+      group: sample.slice(0, -2).match(/\D+/)?.[0] ?? ',',
+      primaryGroupSize: integers[integers.length - 1].length,
+      secondaryGroupSize: integers.length > 2 ? integers[integers.length - 2].length : 3,
+    });
+  }
+  return formats.get(locale);
+}
+
+/* Any kind of space can separate groups in locales which use a space (users won't type a non-breaking one) */
+function isGroupSeparator(char: string, format: AmountFormat): boolean {
+  return char === format.group || (/\s/.test(format.group) && /\s/.test(char));
+}
+
+/**
+ * Reads an amount typed in the given locale (e.g. "1,234.50" in en-US, or "1 234,50" in fr-CA), and returns it as a
+ * plain decimal string (e.g. "1234.50"). Group separators are optional, but must be in the right places when used.
+ * A "." is also accepted as the decimal separator if it doesn't separate groups in the locale.
+ *
+ * Throws an `AmountParseError` describing the problem if the text isn't an amount.
+ */
+export function parseAmount(text: string, locale: string): string {
+  const format = amountFormat(locale);
+  const input = text.trim();
+
+  if (input === '') {
+    throw new AmountParseError('Enter an amount');
+  }
+  if (input.startsWith('-')) {
+    throw new AmountParseError('The amount can\'t be negative');
+  }
+
+  const decimals = Array.from(input).filter(char =>
+    char === format.decimal || (char === '.' && !isGroupSeparator('.', format))
+  );
+  if (decimals.length > 1) {
+    throw new AmountParseError(`Use only one decimal separator ("${format.decimal}")`);
+  }
+
+  const decimalIndex = decimals.length ? input.indexOf(decimals[0]) : input.length;
+  const integerPart = input.slice(0, decimalIndex);
+  const fractionPart = input.slice(decimalIndex + 1);
+
+  for (const char of integerPart + fractionPart) {
+    if (!/\d/.test(char) && !isGroupSeparator(char, format)) {
+      throw new AmountParseError(`"${char}" isn't allowed in an amount`);
+    }
+  }
+  if (!/^\d*$/.test(fractionPart)) {
+    throw new AmountParseError('Digit group separators can\'t be used after the decimal separator');
+  }
+
+  // Split the integer digits into groups, and make sure they're the size the locale uses
+  const groups = Array.from(integerPart).reduce((result, char) => {
+    if (isGroupSeparator(char, format)) {
+      result.push('');
+    } else {
+      result[result.length - 1] += char;
+    }
+    return result;
+  }, ['']);
+  if (groups.length > 1) {
+    const misplaced = groups.some((group, i) => {
+      if (i === 0) {
+        return group.length === 0 || group.length > format.secondaryGroupSize;
+      }
+      return group.length !== (i === groups.length - 1 ? format.primaryGroupSize : format.secondaryGroupSize);
+    });
+    if (misplaced) {
+      const example = new Intl.NumberFormat(locale).format(1234567);
+      throw new AmountParseError(`Digit group separators are in the wrong place (e.g. ${example})`);
+    }
+  }
+
+  const integerDigits = groups.join('').replace(/^0+(?=\d)/, '');
+  if (integerDigits === '' && fractionPart === '') {
+    throw new AmountParseError('Enter an amount');
+  }
+
+  return (integerDigits || '0') + (fractionPart ? '.' + fractionPart : '');
+}
+
+/* Writes a plain decimal string (e.g. "1234.50") the way amounts are written in the locale (e.g. "1 234,50") */
+export function formatAmount(amount: string, locale: string): string {
+  const format = amountFormat(locale);
+  const [integerPart, fractionPart] = amount.split('.');
+
+  const groups = [integerPart.slice(-format.primaryGroupSize)];
+  let rest = integerPart.slice(0, -format.primaryGroupSize);
+  while (rest.length > 0) {
+    groups.unshift(rest.slice(-format.secondaryGroupSize));
+    rest = rest.slice(0, -format.secondaryGroupSize);
+  }
+
+  return groups.join(format.group) + (fractionPart !== undefined ? format.decimal + fractionPart : '');
+}
+
+/* The number of decimal places in a plain decimal string */
+export function decimalPlacesIn(amount: string): number {
+  return amount.includes('.') ? amount.length - amount.indexOf('.') - 1 : 0;
+}
@@ -0,0 +1,42 @@
+import { AmountValidator } from './amount-validator.directive';
+import { FormControl } from '@angular/forms';
+import { CurrencyMetadata, CURRENCY_CODE_MAP } from './currency-info.data';
+
+describe('AmountValidator', () => {
+  let currency: CurrencyMetadata | null;
+  let control: FormControl;
+
+  beforeEach(() => {
+    currency = null;
+    control = new FormControl('', [AmountValidator('en-US', () => currency, c => c.minorUnit)]);
+  });
+
+  function select(code: string): void {
+    currency = CURRENCY_CODE_MAP.find(c => c.alphaCode === code);
+    control.updateValueAndValidity();
+  }
+
+  it('should accept an empty amount', () => {
+    expect(control.valid).toBeTruthy();
+  });
+
+  it('should explain amounts that can\'t be read', () => {
+    control.setValue('12,5');
+    expect(control.errors.invalidAmount.message).toContain('wrong place');
+  });
+
+  it('should allow as many decimal places as the currency\'s minor unit', () => {
+    control.setValue('1,234.567');
+    select('KWD');
+    expect(control.valid).toBeTruthy();
+
+    select('CAD');
+    expect(control.errors.tooManyDecimalPlaces.message).toBe('CAD amounts can have at most 2 decimal places');
+
+    select('JPY');
+    expect(control.errors.tooManyDecimalPlaces.message).toBe('JPY amounts can\'t have decimal places');
+
+    control.setValue('1,234');
+    expect(control.valid).toBeTruthy();
+  });
+});
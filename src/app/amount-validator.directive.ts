@@ -0,0 +1,48 @@
+import { ValidatorFn, AbstractControl } from '@angular/forms';
+import { AmountParseError, decimalPlacesIn, parseAmount } from './amount-parser';
+import { CurrencyMetadata } from './currency-info.data';
+
+/**
+ * This validator is used for a form control where the user enters an amount of
+ * money. The text must be a number written the way the locale writes them, and
+ * can't have more decimal places than the currency allows (e.g. none for JPY, 3
+ * for KWD). As the selected currency can change, `currency` is called each time
+ * the control is validated.
+ *
+ * Errors have a `message` explaining what's wrong with the amount. An empty
+ * control is valid.
+ */
+export function AmountValidator(
+  locale: string,
+  currency: () => CurrencyMetadata | null,
+  decimalPlaces: (currency: CurrencyMetadata) => number,
+): ValidatorFn {
+  return (control: AbstractControl): {[key: string]: any} | null => {
+    if (!control.value || !control.value.trim()) {
+      return null;
+    }
+
+    let amount: string;
+    try {
+      amount = parseAmount(control.value, locale);
+    } catch (e) {
+      if (e instanceof AmountParseError) {
+        return {invalidAmount: {value: control.value, message: e.message}};
+      }
+      throw e;
+    }
+
+    const selected = currency();
+    if (selected) {
+      const allowed = decimalPlaces(selected);
+      if (decimalPlacesIn(amount) > allowed) {
+        const message = allowed === 0 ?
+          `${selected.alphaCode} amounts can't have decimal places` :
+          `${selected.alphaCode} amounts can have at most ${allowed} decimal place${allowed === 1 ? '' : 's'}`;
+        return {tooManyDecimalPlaces: {value: control.value, allowed, message}};
+      }
+    }
+
+    return null;
+  };
+}
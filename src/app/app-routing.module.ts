@@ -2,9 +2,18 @@ import { NgModule } from '@angular/core';
 import { Routes, RouterModule } from '@angular/router';
 
 import { CurrencyConversionComponent } from './currency-conversion/currency-conversion.component';
+import { MultiConversionComponent } from './multi-conversion/multi-conversion.component';
+import { BatchConversionComponent } from './batch-conversion/batch-conversion.component';
+import { RateAlertsComponent } from './rate-alerts/rate-alerts.component';
 
 const routes: Routes = [
   { path: '', component: CurrencyConversionComponent },
+  // Links to a conversion, e.g. /convert/USD/CAD/250?date=2020-03-02 (see conversion-link.ts)
+  { path: 'convert/:from/:to', component: CurrencyConversionComponent },
+  { path: 'convert/:from/:to/:amount', component: CurrencyConversionComponent },
+  { path: 'all', component: MultiConversionComponent },
+  { path: 'batch', component: BatchConversionComponent },
+  { path: 'alerts', component: RateAlertsComponent },
 ];
 
 @NgModule({
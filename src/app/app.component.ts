@@ -1,5 +1,7 @@
 import { Component } from '@angular/core';
 
+import { RateAlertsService } from './rate-alerts.service';
+
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
@@ -9,6 +11,9 @@ export class AppComponent {
   title = 'currency-converter';
   infoShown = false;
 
+  // Injected here so that rate alerts are checked whichever page is open
+  constructor(public alerts: RateAlertsService) { }
+
   toggleInfo() {
     this.infoShown = !this.infoShown;
   }
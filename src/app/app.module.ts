@@ -4,7 +4,15 @@ import { NgModule } from '@angular/core';
 import { AppRoutingModule } from './app-routing.module';
 import { AppComponent } from './app.component';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
-import { CurrencyConversionComponent, DialogPromptRateCheck } from './currency-conversion/currency-conversion.component';
+import { CurrencyConversionComponent } from './currency-conversion/currency-conversion.component';
+import { MultiConversionComponent } from './multi-conversion/multi-conversion.component';
+import { RateChartComponent } from './rate-chart/rate-chart.component';
+import { BatchConversionComponent } from './batch-conversion/batch-conversion.component';
+import { RateExportComponent } from './rate-export/rate-export.component';
+import { ConversionHistoryComponent } from './conversion-history/conversion-history.component';
+import { PeriodPickerComponent } from './period-picker/period-picker.component';
+import { FeeProfilesComponent } from './fee-profiles/fee-profiles.component';
+import { RateAlertsComponent } from './rate-alerts/rate-alerts.component';
 
 import { ReactiveFormsModule, FormsModule } from '@angular/forms';
 
@@ -18,7 +26,10 @@ import { MatButtonModule } from '@angular/material/button';
 import { MatDatepickerModule } from '@angular/material/datepicker';
 import { MatNativeDateModule } from '@angular/material/core';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
-import { MatDialogModule } from '@angular/material/dialog';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTableModule } from '@angular/material/table';
+import { MatSortModule } from '@angular/material/sort';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
 
 import { HttpClientModule } from '@angular/common/http';
 
@@ -26,7 +37,14 @@ import { HttpClientModule } from '@angular/common/http';
   declarations: [
     AppComponent,
     CurrencyConversionComponent,
-    DialogPromptRateCheck,
+    MultiConversionComponent,
+    RateChartComponent,
+    BatchConversionComponent,
+    RateExportComponent,
+    ConversionHistoryComponent,
+    PeriodPickerComponent,
+    FeeProfilesComponent,
+    RateAlertsComponent,
   ],
   imports: [
     BrowserModule,
@@ -43,14 +61,14 @@ import { HttpClientModule } from '@angular/common/http';
     MatDatepickerModule,
     MatProgressSpinnerModule,
     MatNativeDateModule,
-    MatDialogModule,
+    MatSelectModule,
+    MatTableModule,
+    MatSortModule,
+    MatButtonToggleModule,
     FormsModule,
     HttpClientModule,
     ReactiveFormsModule,
   ],
-  entryComponents: [
-    DialogPromptRateCheck
-  ],
   providers: [],
   bootstrap: [AppComponent]
 })
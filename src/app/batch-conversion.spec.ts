@@ -0,0 +1,87 @@
+import { TestBed } from '@angular/core/testing';
+
+import { convertBatch } from './batch-conversion';
+
+import { HttpClientModule } from '@angular/common/http';
+
+import { CurrencyConversionService } from './currency-conversion.service';
+import { parseCsv } from './csv';
+
+describe('convertBatch', () => {
+  let service: CurrencyConversionService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [
+        HttpClientModule,
+      ]
+    });
+    service = TestBed.inject(CurrencyConversionService);
+    service.storeRates({
+      base: 'CAD',
+      timeZone: 'America/Toronto',
+      quotation: 'direct',
+      observations: [
+        {date: '2020-03-02', rates: {USD: '1.3400', EUR: '1.4800'}},
+        {date: '2020-03-03', rates: {USD: '1.3300', EUR: '1.4700'}},
+      ]
+    });
+  });
+
+  it('should add the conversion, rate and rate date to each row', () => {
+    const records = parseCsv([
+      'Date,Amount,Currency,Memo',
+      '2020-03-02,100,usd,first',
+      // A Saturday, so Tuesday's rates are used
+      '2020-03-07,"1,000",EUR,second',
+    ].join('\n'));
+
+    const result = convertBatch(records, 'CAD', service, 'en-US');
+
+    expect(result.errors).toEqual([]);
+    expect(result.converted).toBe(2);
+    expect(result.rows).toEqual([
+      ['Date', 'Amount', 'Currency', 'Memo', 'converted_amount', 'converted_currency', 'rate', 'rate_date', 'error'],
+      ['2020-03-02', '100', 'usd', 'first', '134.00', 'CAD', '1.34', '2020-03-02', ''],
+      ['2020-03-07', '1,000', 'EUR', 'second', '1470.00', 'CAD', '1.47', '2020-03-03', ''],
+    ]);
+  });
+
+  it('should report rows which can\'t be converted by line number', () => {
+    const records = parseCsv([
+      'amount,currency,date',
+      'abc,USD,2020-03-02',
+      '10,XYZ,2020-03-02',
+      '',
+      '10,USD,03/02/2020',
+      '10,EUR,2020-02-01',
+      '10,USD',
+      '10,EUR,2020-03-03',
+      '10,USD,2020-02-30',
+    ].join('\n'));
+
+    const result = convertBatch(records, 'USD', service, 'en-US');
+
+    expect(result.converted).toBe(1);
+    expect(result.errors).toEqual([
+      {line: 2, message: 'Amount "abc": "a" isn\'t allowed in an amount'},
+      {line: 3, message: 'Unknown currency "XYZ"'},
+      {line: 5, message: 'Date "03/02/2020" isn\'t a YYYY-MM-DD date'},
+      {line: 6, message: 'No EUR to USD rate on 2020-02-01 or the 7 days before it'},
+      {line: 7, message: 'Date "" isn\'t a YYYY-MM-DD date'},
+      {line: 9, message: 'Date "2020-02-30" isn\'t a YYYY-MM-DD date'},
+    ]);
+    // Bad rows are kept, with the reason they weren't converted
+    expect(result.rows[1]).toEqual(['abc', 'USD', '2020-03-02', '', '', '', '', 'Amount "abc": "a" isn\'t allowed in an amount']);
+    expect(result.rows[6]).toEqual(['10', 'EUR', '2020-03-03', '11.05', 'USD', '1.1052631579', '2020-03-03', '']);
+  });
+
+  it('should report a missing header column', () => {
+    const result = convertBatch(parseCsv('amount,date\n10,2020-03-02'), 'CAD', service, 'en-US');
+
+    expect(result.rows).toEqual([]);
+    expect(result.errors).toEqual([
+      {line: 1, message: 'The header row needs columns named amount, currency, date (missing: currency)'},
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { CurrencyConversionService } from './currency-conversion.service';
+import { RoundingMode } from './decimal-conversion';
+import { AmountParseError, parseAmount } from './amount-parser';
+import { CsvRecord } from './csv';
+import { describeFallback } from './rate-fallback';
+
+import * as mtz from 'moment-timezone';
+
+/* Columns a batch file must have (in any order, alongside any others) */
+export const BATCH_COLUMNS = ['amount', 'currency', 'date'];
+
+/* Columns added to each row of a converted batch file */
+export const BATCH_RESULT_COLUMNS = ['converted_amount', 'converted_currency', 'rate', 'rate_date', 'error'];
+
+/* A row of a batch file which couldn't be converted */
+export interface BatchConversionError {
+  /* Line of the file the row starts on */
+  line: number;
+  message: string;
+}
+
+export interface BatchConversionResult {
+  /* The rows of the file (including its header) with `BATCH_RESULT_COLUMNS` added */
+  rows: string[][];
+  /* Number of rows converted */
+  converted: number;
+  errors: BatchConversionError[];
+}
+
+/* Thrown when a row has a value which can't be used */
+class BatchRowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchRowError';
+  }
+}
+
+/**
+ * Converts every row of a batch file (read with `parseCsv()`) into `to`, using rates from the row's date (or as the
+ * conversion service's fallback policy decides, when there are none that day). The first record must be a header
+ * naming the `BATCH_COLUMNS`; amounts are read the way they're typed in `locale` (plain decimals like "1234.50"
+ * always work).
+ *
+ * Rows which can't be converted are kept (with the reason in their `error` column), and reported in `errors`.
+ */
+export function convertBatch(
+  records: CsvRecord[],
+  to: string,
+  conversionService: CurrencyConversionService,
+  locale: string,
+  rounding = RoundingMode.halfEven,
+): BatchConversionResult {
+  if (records.length === 0) {
+    return {rows: [], converted: 0, errors: [{line: 1, message: 'The file is empty'}]};
+  }
+
+  const [header, ...body] = records;
+  const columns = header.fields.map(name => name.trim().toLowerCase());
+  const missing = BATCH_COLUMNS.filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    const message = `The header row needs columns named ${BATCH_COLUMNS.join(', ')} (missing: ${missing.join(', ')})`;
+    return {rows: [], converted: 0, errors: [{line: header.line, message}]};
+  }
+
+  const [amountIndex, currencyIndex, dateIndex] = BATCH_COLUMNS.map(name => columns.indexOf(name));
+  const result: BatchConversionResult = {
+    rows: [header.fields.concat(BATCH_RESULT_COLUMNS)],
+    converted: 0,
+    errors: [],
+  };
+
+  for (const record of body) {
+    // Short rows are padded, so that every row has the same columns
+    const fields = header.fields.map((_, i) => record.fields[i] ?? '');
+    try {
+      const [amount, rate, rateDate] = convertRow(
+        fields[amountIndex], fields[currencyIndex], fields[dateIndex], to, conversionService, locale, rounding
+      );
+      result.rows.push(fields.concat([amount, to, rate, rateDate, '']));
+      result.converted++;
+    } catch (error) {
+      if (!(error instanceof BatchRowError)) {
+        throw error;
+      }
+      result.rows.push(fields.concat(['', '', '', '', error.message]));
+      result.errors.push({line: record.line, message: error.message});
+    }
+  }
+
+  return result;
+}
+
+/* Returns [converted amount, rate, date of the rates used] for one row */
+function convertRow(
+  amountText: string,
+  currencyText: string,
+  dateText: string,
+  to: string,
+  conversionService: CurrencyConversionService,
+  locale: string,
+  rounding: RoundingMode,
+): [string, string, string] {
+  let amount: string;
+  try {
+    amount = parseAmount(amountText, locale);
+  } catch (error) {
+    throw error instanceof AmountParseError ? new BatchRowError(`Amount "${amountText}": ${error.message}`) : error;
+  }
+
+  const from = currencyText.trim().toUpperCase();
+  if (conversionService.getCurrencyMetadata(from) === null) {
+    throw new BatchRowError(`Unknown currency "${currencyText}"`);
+  }
+
+  // Strictly parsed, so that impossible dates (e.g. 2020-02-30) are reported as such rather than as having no rate
+  const date = dateText.trim();
+  if (!mtz(date, 'YYYY-MM-DD', true).isValid()) {
+    throw new BatchRowError(`Date "${dateText}" isn't a YYYY-MM-DD date`);
+  }
+
+  // Noon in the provider's time zone is on the same calendar date there
+  const timeZone = conversionService.rates.timeZone;
+  const on = mtz.tz(date + 'T12:00:00', timeZone).toDate();
+  const conversion = conversionService.convert(amount, from, to, on, rounding);
+  const rate = conversionService.conversionRate(from, to, on);
+  if (conversion === null || rate === null) {
+    throw new BatchRowError(`No ${from} to ${to} rate ${describeFallback(date, conversionService.fallback)}`);
+  }
+
+  return [conversion[0], rate[0], conversion[1].toLocaleDateString('en-CA', {timeZone})];
+}
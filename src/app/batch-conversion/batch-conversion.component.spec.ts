@@ -0,0 +1,54 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BatchConversionComponent } from './batch-conversion.component';
+
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { RateCacheService } from '../rate-cache.service';
+import { fixtureRateProvider, provideRateProvider } from '../testing/fixture-rate-provider';
+
+describe('BatchConversionComponent', () => {
+  let component: BatchConversionComponent;
+  let fixture: ComponentFixture<BatchConversionComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        HttpClientTestingModule,
+      ],
+      providers: provideRateProvider(fixtureRateProvider()),
+      declarations: [ BatchConversionComponent ]
+    })
+    .compileComponents();
+    TestBed.inject(RateCacheService).clear('fixture');
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(BatchConversionComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    component.conversionService.stopBackgroundRefresh();
+    TestBed.inject(RateCacheService).clear('fixture');
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should convert a file into the currency selected, and list bad rows', () => {
+    component.setFile('expenses.csv', 'amount,currency,date\n100,USD,2020-03-02\n100,GBP,2020-03-02\n');
+    fixture.detectChanges();
+
+    expect(component.targetCurrencyControl.value.alphaCode).toBe('CAD');
+    expect(component.result.converted).toBe(1);
+    expect(component.result.rows[1].slice(3, 7)).toEqual(['134.00', 'CAD', '1.34', '2020-03-02']);
+    expect(fixture.nativeElement.querySelector('#batchErrors').textContent).toContain('Line 3');
+
+    // Changing the currency converts the file again
+    component.targetCurrencyControl.setValue(component.currencies.find(currency => currency.alphaCode === 'EUR'));
+    expect(component.result.rows[1].slice(3, 7)).toEqual(['90.54', 'EUR', '0.9054054054', '2020-03-02']);
+  });
+});
@@ -0,0 +1,170 @@
+import { Component, Inject, LOCALE_ID, OnDestroy, OnInit } from '@angular/core';
+import { FormControl } from '@angular/forms';
+
+import { Subscription } from 'rxjs';
+
+import { CurrencyConversionService } from '../currency-conversion.service';
+import { CurrencyMetadata } from '../currency-info.data';
+import { RateHistory } from '../rate-provider';
+import { RoundingMode } from '../decimal-conversion';
+import { BatchConversionResult, BATCH_COLUMNS, convertBatch } from '../batch-conversion';
+import { formatCsv, parseCsv } from '../csv';
+import { downloadFile } from '../download';
+import { LoadingError } from '../loading-error';
+
+/**
+ * Converts a whole CSV file of amounts at once: each row has an amount, its currency and a date, and is converted
+ * into the currency selected. The converted file can be downloaded, and rows which couldn't be converted are listed
+ * by line number.
+ */
+@Component({
+  selector: 'app-batch-conversion',
+  templateUrl: './batch-conversion.component.html',
+  styleUrls: ['./batch-conversion.component.css'],
+})
+export class BatchConversionComponent implements OnInit, OnDestroy {
+  /* Currency codes available from the rate provider (null until they've been fetched) */
+  codes: string[] | null = null;
+  /* Currencies with rates for at least some dates (rows dated in a gap in a series follow the fallback policy) */
+  currencies: CurrencyMetadata[] = [];
+
+  /* Form control for the currency every row is converted into */
+  targetCurrencyControl = new FormControl(null);
+  /* Form control for how converted amounts are rounded */
+  roundingControl = new FormControl(RoundingMode.halfEven);
+  roundingModes: {mode: RoundingMode, label: string}[] = [
+    {mode: RoundingMode.halfEven, label: 'Half to even'},
+    {mode: RoundingMode.halfUp, label: 'Half up'},
+    {mode: RoundingMode.truncate, label: 'Truncate'},
+  ];
+
+  /* Columns the file needs, shown as a hint */
+  columns = BATCH_COLUMNS;
+
+  /* Name and contents of the file selected (null until one is selected) */
+  fileName: string | null = null;
+  fileText: string | null = null;
+  /* Set when the file selected couldn't be read */
+  fileError: string | null = null;
+  /* The converted file */
+  result: BatchConversionResult | null = null;
+
+  /* Is data still being fetched from the rate provider? */
+  loading = true;
+  /* When loading fails, this describes what went wrong */
+  loadingError: LoadingError | null = null;
+
+  subscriptions: Subscription[] = [];
+  /* Rates may already be loaded by the converter, and may be refreshed in the background while this is shown */
+  ratesSubscription = Subscription.EMPTY;
+
+  constructor(
+    public conversionService: CurrencyConversionService,
+    @Inject(LOCALE_ID) private locale: string,
+  ) { }
+
+  ngOnInit(): void {
+    this.subscriptions.push(this.targetCurrencyControl.valueChanges.subscribe(() => this.updateResult()));
+    this.subscriptions.push(this.roundingControl.valueChanges.subscribe(() => this.updateResult()));
+
+    this.load();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.map((s) => s.unsubscribe());
+    this.subscriptions = [];
+    this.ratesSubscription.unsubscribe();
+  }
+
+  /* Fetch the available currencies, then watch the rates (fetching them unless they're already loaded) */
+  load(): void {
+    this.loading = true;
+    this.loadingError = null;
+
+    // (the currencies may be delivered right away, before `subscribe()` returns)
+    this.ratesSubscription.unsubscribe();
+    const subscription = new Subscription();
+    this.ratesSubscription = subscription;
+    subscription.add(this.conversionService.getAvailableConversions().subscribe({
+      next: codes => {
+        this.codes = codes;
+        subscription.add(this.conversionService.watchRates(
+          rates => this.loadAvailableRates(rates),
+          error => this.handleLoadingError(error),
+        ));
+      },
+      error: error => this.handleLoadingError(this.conversionService.reportLoadingError(error, 'fetchingCurrencies')),
+    }));
+  }
+
+  /* Handler for rates from the conversion service's rate store */
+  loadAvailableRates(rates: RateHistory): void {
+    const availability = this.conversionService.rateAvailability(this.codes, rates);
+    this.currencies = this.conversionService.getAll().filter(currency => availability.has(currency.alphaCode));
+
+    if (!this.currencies.includes(this.targetCurrencyControl.value)) {
+      this.targetCurrencyControl.setValue(
+        this.conversionService.getCurrencyMetadata(this.conversionService.baseCurrency), {emitEvent: false}
+      );
+    }
+
+    this.loading = false;
+    this.updateResult();
+  }
+
+  /* Handler for the file input */
+  handleFileSelection(input: HTMLInputElement): void {
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => this.setFile(file.name, reader.result as string);
+    reader.onerror = () => {
+      this.fileName = file.name;
+      this.fileText = null;
+      this.fileError = `Couldn't read ${file.name}`;
+      this.result = null;
+    };
+    reader.readAsText(file);
+    // Selecting the same file again (e.g. after fixing it) should read it again
+    input.value = '';
+  }
+
+  /* Convert the contents of a file */
+  setFile(name: string, text: string): void {
+    this.fileName = name;
+    this.fileText = text;
+    this.fileError = null;
+    this.updateResult();
+  }
+
+  /* Convert the file selected into the currency selected */
+  updateResult(): void {
+    const target: CurrencyMetadata | null = this.targetCurrencyControl.value;
+
+    if (this.loading || this.fileText === null || !target) {
+      this.result = null;
+      return;
+    }
+
+    this.result = convertBatch(
+      parseCsv(this.fileText), target.alphaCode, this.conversionService, this.locale, this.roundingControl.value
+    );
+  }
+
+  /* Save the converted file */
+  download(): void {
+    const name = this.fileName.replace(/\.csv$/i, '');
+    downloadFile(
+      `${name}-${this.targetCurrencyControl.value.alphaCode}.csv`, formatCsv(this.result.rows), 'text/csv;charset=utf-8'
+    );
+  }
+
+  /* Handler for errors while fetching currencies or rates */
+  handleLoadingError(error: LoadingError): void {
+    this.loadingError = error;
+    this.loading = false;
+  }
+}
@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+
+import { BocValetRateProvider } from './boc-valet-rate-provider';
+
+describe('BocValetRateProvider', () => {
+  let provider: BocValetRateProvider;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [
+        HttpClientTestingModule,
+      ]
+    });
+    provider = TestBed.inject(BocValetRateProvider);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should list the currencies quoted against CAD, including CAD', () => {
+    provider.getAvailableCurrencies().subscribe(codes => {
+      expect(codes).toEqual(['CAD', 'USD', 'EUR']);
+    });
+
+    httpMock.expectOne('https://www.bankofcanada.ca/valet/groups/FX_RATES_DAILY/json').flush({
+      groupDetails: {
+        groupSeries: {FXUSDCAD: {}, FXEURCAD: {}},
+      },
+    });
+  });
+
+  it('should name series the way Valet does', () => {
+    expect(provider.seriesId('USD')).toBe('FXUSDCAD');
+  });
+
+  it('should normalize observations', () => {
+    provider.getRateHistory().subscribe(history => {
+      expect(history.base).toBe('CAD');
+      expect(history.timeZone).toBe('America/Toronto');
+      expect(history.observations).toEqual([
+        {date: '2020-03-02', rates: {USD: '1.3400', EUR: '1.4800'}},
+      ]);
+    });
+
+    httpMock.expectOne('https://www.bankofcanada.ca/valet/observations/group/FX_RATES_DAILY/json').flush({
+      observations: [
+        {d: '2020-03-02', FXUSDCAD: {v: '1.3400'}, FXEURCAD: {v: '1.4800'}},
+      ],
+    });
+  });
+
+  it('should fetch the official monthly and annual averages', () => {
+    provider.getAverageRateHistory('monthly').subscribe(history => {
+      expect(history.observations).toEqual([
+        {date: '2020-03-01', rates: {USD: '1.3953'}},
+      ]);
+    });
+    provider.getAverageRateHistory('annual').subscribe(history => {
+      expect(history.observations).toEqual([
+        {date: '2020-01-01', rates: {USD: '1.3415'}},
+      ]);
+    });
+
+    httpMock.expectOne('https://www.bankofcanada.ca/valet/observations/group/FX_RATES_MONTHLY/json').flush({
+      observations: [{d: '2020-03-01', FXMUSDCAD: {v: '1.3953'}}],
+    });
+    httpMock.expectOne('https://www.bankofcanada.ca/valet/observations/group/FX_RATES_ANNUAL/json').flush({
+      observations: [{d: '2020-01-01', FXAUSDCAD: {v: '1.3415'}}],
+    });
+  });
+
+  it('should only request observations after a start date', () => {
+    provider.getRateHistory('2020-03-03').subscribe(history => {
+      expect(history.observations).toEqual([]);
+    });
+
+    const req = httpMock.expectOne(r => r.url === 'https://www.bankofcanada.ca/valet/observations/group/FX_RATES_DAILY/json');
+    expect(req.request.params.get('start_date')).toBe('2020-03-03');
+    req.flush({observations: []});
+  });
+});
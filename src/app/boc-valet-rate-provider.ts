@@ -0,0 +1,103 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+import { RateHistory, RateObservation, RatePeriod, RateProvider } from './rate-provider';
+import { bocNonPublicationDays, weekdaysExcept } from './publication-calendar';
+import { parseValetGroupResponse, parseValetObservationsResponse, ValetObservation, ValetValue } from './valet-api';
+
+/* Valet series that are quoted against CAD (e.g. "FXUSDCAD") */
+const SERIES_PATTERN = /^FX([A-Z]{3})CAD$/;
+
+/* Valet groups of average rates, and their series (e.g. "FXMUSDCAD" for the monthly average of USD) */
+const AVERAGE_GROUPS: {[period in RatePeriod]: {group: string, pattern: RegExp}} = {
+  monthly: {group: 'FX_RATES_MONTHLY', pattern: /^FXM([A-Z]{3})CAD$/},
+  annual: {group: 'FX_RATES_ANNUAL', pattern: /^FXA([A-Z]{3})CAD$/},
+};
+
+/**
+ * Fetches daily exchange rates from the Bank of Canada's Valet API (https://www.bankofcanada.ca/valet/docs), using the
+ * `FX_RATES_DAILY` group. The official monthly and annual averages come from the `FX_RATES_MONTHLY` and
+ * `FX_RATES_ANNUAL` groups.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BocValetRateProvider implements RateProvider {
+  readonly id = 'boc';
+  readonly name = 'Bank of Canada';
+  readonly baseCurrency = 'CAD';
+  readonly timeZone = 'America/Toronto';
+  readonly publicationHour = 16;
+  readonly publicationMinute = 30;
+  readonly isPublicationDay = weekdaysExcept(bocNonPublicationDays);
+
+  readonly valetUrl = 'https://www.bankofcanada.ca/valet';
+  readonly group = 'FX_RATES_DAILY';
+
+  constructor(private http: HttpClient) {
+  }
+
+  getAvailableCurrencies(): Observable<string[]> {
+    return this.http.get<unknown>(`${this.valetUrl}/groups/${this.group}/json`).pipe(
+      // 1. Make sure the response is what we expect, and get the relevant key from inside the object
+      map(rsp => parseValetGroupResponse(rsp).groupDetails.groupSeries),
+      // 2. Get the keys in the group series (e.g. "FXUSDCAD")
+      map(series => Object.keys(series)),
+      // 3. Convert the data into a convenient format (list of available codes)
+      map((series: string[]) => {
+        const codes = series
+          .map(key => key.match(SERIES_PATTERN))
+          .filter(matches => matches !== null)
+          .map(matches => matches[1]);
+
+        return [this.baseCurrency, ...codes];
+      }),
+    );
+  }
+
+  seriesId(code: string): string {
+    return `FX${code}${this.baseCurrency}`;
+  }
+
+  getRateHistory(startDate?: string): Observable<RateHistory> {
+    const params = startDate ? {start_date: startDate} : {};
+
+    return this.fetchObservations(this.group, SERIES_PATTERN, params);
+  }
+
+  /* Monthly averages are dated the first of the month (e.g. '2020-03-01'), and annual averages the first of the year */
+  getAverageRateHistory(period: RatePeriod): Observable<RateHistory> {
+    const {group, pattern} = AVERAGE_GROUPS[period];
+    return this.fetchObservations(group, pattern, {});
+  }
+
+  private fetchObservations(group: string, pattern: RegExp, params: {[param: string]: string}): Observable<RateHistory> {
+    return this.http.get<unknown>(`${this.valetUrl}/observations/group/${group}/json`, {params}).pipe(
+      map(rsp => parseValetObservationsResponse(rsp)),
+      map(rsp => ({
+        base: this.baseCurrency,
+        timeZone: this.timeZone,
+        quotation: 'direct' as const,
+        observations: rsp.observations.map(o => this.normalizeObservation(o, pattern)),
+      })),
+    );
+  }
+
+  /**
+   * Valet observations look like `{d: '2020-03-02', FXUSDCAD: {v: '1.3400'}, ...}`
+   */
+  private normalizeObservation(observation: ValetObservation, pattern: RegExp): RateObservation {
+    const rates: {[code: string]: string} = {};
+
+    for (const key of Object.keys(observation)) {
+      const matches = key.match(pattern);
+      if (matches !== null) {
+        rates[matches[1]] = (observation[key] as ValetValue).v;
+      }
+    }
+
+    return {date: observation.d, rates};
+  }
+}
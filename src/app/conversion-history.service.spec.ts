@@ -0,0 +1,83 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ConversionHistoryService, NewConversionHistoryEntry, searchHistory } from './conversion-history.service';
+
+import { RoundingMode } from './decimal-conversion';
+
+describe('ConversionHistoryService', () => {
+  let service: ConversionHistoryService;
+
+  const conversion = (time: string, fromAmount: string, changes: Partial<NewConversionHistoryEntry> = {}) => ({
+    time,
+    providerId: 'boc',
+    fromAmount,
+    fromCode: 'USD',
+    toAmount: (Number(fromAmount) * 1.34).toFixed(2),
+    toCode: 'CAD',
+    forward: true,
+    rate: '1.34',
+    date: '2020-03-02',
+    rateDate: '2020-03-02',
+    range: null,
+    rounding: RoundingMode.halfEven,
+    ...changes,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ConversionHistoryService);
+    service.clear();
+  });
+
+  afterEach(() => {
+    service.clear();
+  });
+
+  it('should record conversions newest first, and keep them across reloads', () => {
+    service.record(conversion('2020-03-02T12:00:00Z', '100'));
+    service.record(conversion('2020-03-02T12:05:00Z', '200'));
+
+    expect(service.entries.map(entry => entry.fromAmount)).toEqual(['200', '100']);
+    expect(new ConversionHistoryService().entries).toEqual(service.entries);
+  });
+
+  it('should replace a conversion made moments before with the same currencies and dates', () => {
+    service.record(conversion('2020-03-02T12:00:00Z', '1'));
+    service.record(conversion('2020-03-02T12:00:01Z', '10'));
+    service.record(conversion('2020-03-02T12:00:02Z', '100'));
+    service.record(conversion('2020-03-02T12:00:03Z', '100', {toCode: 'EUR'}));
+
+    expect(service.entries.map(entry => [entry.fromAmount, entry.toCode])).toEqual([['100', 'EUR'], ['100', 'CAD']]);
+  });
+
+  it('should star and delete entries', () => {
+    const first = service.record(conversion('2020-03-02T12:00:00Z', '100'));
+    const second = service.record(conversion('2020-03-02T13:00:00Z', '200'));
+
+    service.toggleStar(first.id);
+    service.remove(second.id);
+
+    expect(service.entries.map(entry => [entry.fromAmount, entry.starred])).toEqual([['100', true]]);
+  });
+
+  it('should drop the oldest unstarred entries once there are too many', () => {
+    const starred = service.record(conversion('2020-01-01T00:00:00Z', '1'));
+    service.toggleStar(starred.id);
+    for (let i = 0; i <= service.maxEntries; i++) {
+      service.record(conversion(new Date(Date.UTC(2020, 1, 1, i)).toISOString(), String(i + 2)));
+    }
+
+    expect(service.entries.length).toBe(service.maxEntries + 1);
+    expect(service.entries.some(entry => entry.fromAmount === '2')).toBeFalse();
+    expect(service.entries[service.entries.length - 1].id).toBe(starred.id);
+  });
+
+  it('should search by currency, amount and date', () => {
+    service.record(conversion('2020-03-02T12:00:00Z', '100'));
+    service.record(conversion('2020-03-02T13:00:00Z', '250', {toCode: 'EUR', date: '2020-04-01', rateDate: '2020-04-01'}));
+
+    expect(searchHistory(service.entries, 'eur').map(entry => entry.fromAmount)).toEqual(['250']);
+    expect(searchHistory(service.entries, 'usd 2020-03').map(entry => entry.fromAmount)).toEqual(['100']);
+    expect(searchHistory(service.entries, '').length).toBe(2);
+  });
+});
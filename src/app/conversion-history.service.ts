@@ -0,0 +1,148 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { RoundingMode } from './decimal-conversion';
+import { RatePeriod } from './rate-provider';
+import { loadStored, newId, saveStored } from './local-storage';
+
+/* A conversion made in the converter, as kept in the history */
+export interface ConversionHistoryEntry {
+  id: string;
+  /* When the conversion was made (ISO 8601) */
+  time: string;
+  /* Source of the rates (a `RateProvider` id) */
+  providerId: string;
+  /* Amounts as plain decimal strings */
+  fromAmount: string;
+  fromCode: string;
+  toAmount: string;
+  toCode: string;
+  /* Was the "from" amount the one entered (rather than the "to" amount)? */
+  forward: boolean;
+  /* Rate for 1 unit of `fromCode` in `toCode` */
+  rate: string;
+  /* Date the conversion was made for, and the date of the rates used (YYYY-MM-DD, in the provider's time zone) */
+  date: string;
+  rateDate: string;
+  /* Set when the conversion used the average rate over a range of dates (YYYY-MM-DD) */
+  range: {start: string, end: string} | null;
+  /**
+   * Set when the conversion used the provider's official average for a month or year (starting on `start`,
+   * YYYY-MM-DD). Entries recorded before official averages were kept don't have it.
+   */
+  period?: {mode: RatePeriod, start: string} | null;
+  rounding: RoundingMode;
+  starred: boolean;
+}
+
+/* What's recorded for a new conversion (the id and starring are taken care of by the history) */
+export type NewConversionHistoryEntry = Omit<ConversionHistoryEntry, 'id' | 'starred'>;
+
+/* Entries with any of these matching the search text are found (e.g. "USD", "2020-03", "1234.5") */
+const SEARCHED_FIELDS: (keyof ConversionHistoryEntry)[] = ['fromCode', 'toCode', 'fromAmount', 'toAmount', 'date', 'rateDate'];
+
+/* Entries in the history which match some text, newest first */
+export function searchHistory(entries: ConversionHistoryEntry[], text: string): ConversionHistoryEntry[] {
+  const terms = text.trim().toLowerCase().split(/\s+/).filter(term => term !== '');
+
+  return entries.filter(entry => {
+    const fields = SEARCHED_FIELDS.map(field => String(entry[field]).toLowerCase());
+    return terms.every(term => fields.some(field => field.includes(term)));
+  });
+}
+
+/**
+ * Keeps a history of the conversions made, persisted in `localStorage` so that it survives reloads. Starred entries
+ * are kept however long the history gets.
+ *
+ * Conversions are made as the user types, so a conversion made shortly after another with the same currencies and
+ * dates replaces it, rather than filling the history with partly typed amounts.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConversionHistoryService {
+  /* Bump this whenever the shape of `ConversionHistoryEntry` changes, so that stale entries are ignored */
+  readonly version = 1;
+  readonly key = 'currency-converter.history';
+  /* Unstarred entries beyond this many are dropped, oldest first */
+  readonly maxEntries = 200;
+  /* A conversion this soon after a similar one replaces it */
+  readonly mergeMilliseconds = 10000;
+
+  private entriesSubject = new BehaviorSubject<ConversionHistoryEntry[]>(this.load());
+  /* The history, newest first */
+  entriesObs: Observable<ConversionHistoryEntry[]> = this.entriesSubject.asObservable();
+
+  get entries(): ConversionHistoryEntry[] {
+    return this.entriesSubject.value;
+  }
+
+  /* Adds a conversion to the history, and returns its entry */
+  record(conversion: NewConversionHistoryEntry): ConversionHistoryEntry {
+    let entries = this.entries;
+    const latest = entries[0];
+
+    if (latest && this.isSameConversion(latest, conversion)) {
+      if (latest.fromAmount === conversion.fromAmount && latest.toAmount === conversion.toAmount) {
+        // Nothing changed (e.g. the conversion was restored from the history)
+        return latest;
+      }
+      if (!latest.starred && Date.parse(conversion.time) - Date.parse(latest.time) < this.mergeMilliseconds) {
+        entries = entries.slice(1);
+      }
+    }
+
+    const entry: ConversionHistoryEntry = {...conversion, id: newId(Date.parse(conversion.time)), starred: false};
+    entries = [entry, ...entries];
+
+    // Drop the oldest unstarred entries once there are too many
+    let kept = 0;
+    entries = entries.filter(e => e.starred || ++kept <= this.maxEntries);
+
+    this.save(entries);
+    return entry;
+  }
+
+  /* Stars an entry (or unstars it, if it's already starred) */
+  toggleStar(id: string): void {
+    this.save(this.entries.map(entry => entry.id === id ? {...entry, starred: !entry.starred} : entry));
+  }
+
+  remove(id: string): void {
+    this.save(this.entries.filter(entry => entry.id !== id));
+  }
+
+  /* Removes every entry, starred or not */
+  clear(): void {
+    this.save([]);
+  }
+
+  /* Whether two conversions only differ in their amounts */
+  private isSameConversion(entry: ConversionHistoryEntry, conversion: NewConversionHistoryEntry): boolean {
+    return entry.providerId === conversion.providerId
+      && entry.fromCode === conversion.fromCode
+      && entry.toCode === conversion.toCode
+      && entry.forward === conversion.forward
+      && entry.date === conversion.date
+      && entry.rounding === conversion.rounding
+      && JSON.stringify(entry.range) === JSON.stringify(conversion.range)
+      && JSON.stringify(entry.period ?? null) === JSON.stringify(conversion.period ?? null);
+  }
+
+  private load(): ConversionHistoryEntry[] {
+    const stored = loadStored(this.key, 'conversion history', ({version, entries}) => {
+      return version === this.version && Array.isArray(entries) ? entries : null;
+    });
+    return stored ?? [];
+  }
+
+  /**
+   * Updates the history, and stores it. If it can't be stored (e.g. storage is full or disabled), the history still
+   * lasts until the page is closed.
+   */
+  private save(entries: ConversionHistoryEntry[]): void {
+    this.entriesSubject.next(entries);
+    saveStored(this.key, {version: this.version, entries}, 'conversion history');
+  }
+}
@@ -0,0 +1,72 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ConversionHistoryComponent } from './conversion-history.component';
+
+import { ReactiveFormsModule } from '@angular/forms';
+
+import { ConversionHistoryEntry, ConversionHistoryService } from '../conversion-history.service';
+import { RoundingMode } from '../decimal-conversion';
+
+describe('ConversionHistoryComponent', () => {
+  let component: ConversionHistoryComponent;
+  let fixture: ComponentFixture<ConversionHistoryComponent>;
+  let history: ConversionHistoryService;
+  let entry: ConversionHistoryEntry;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        ReactiveFormsModule,
+      ],
+      declarations: [ ConversionHistoryComponent ]
+    })
+    .compileComponents();
+
+    history = TestBed.inject(ConversionHistoryService);
+    history.clear();
+    entry = history.record({
+      time: '2020-03-02T12:00:00Z',
+      providerId: 'boc',
+      fromAmount: '1234.5',
+      fromCode: 'USD',
+      toAmount: '1654.23',
+      toCode: 'CAD',
+      forward: true,
+      rate: '1.34',
+      date: '2020-03-02',
+      rateDate: '2020-03-02',
+      range: null,
+      rounding: RoundingMode.halfEven,
+    });
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(ConversionHistoryComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    history.clear();
+  });
+
+  it('should list conversions', () => {
+    expect(fixture.nativeElement.querySelector('.amounts').textContent).toContain('1,234.5 USD');
+  });
+
+  it('should restore a conversion when it is clicked', () => {
+    let restored: ConversionHistoryEntry | null = null;
+    component.restore.subscribe((e: ConversionHistoryEntry) => restored = e);
+
+    fixture.nativeElement.querySelector('button.restore').click();
+    expect(restored).toBe(entry);
+  });
+
+  it('should only show starred conversions when asked', () => {
+    component.starredOnly = true;
+    expect(component.shownEntries).toEqual([]);
+
+    history.toggleStar(entry.id);
+    expect(component.shownEntries.map(e => e.id)).toEqual([entry.id]);
+  });
+});
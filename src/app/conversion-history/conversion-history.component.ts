@@ -0,0 +1,44 @@
+import { Component, EventEmitter, Inject, LOCALE_ID, Output } from '@angular/core';
+import { FormControl } from '@angular/forms';
+
+import { ConversionHistoryEntry, ConversionHistoryService, searchHistory } from '../conversion-history.service';
+import { formatAmount } from '../amount-parser';
+
+/**
+ * Lists the conversions made in the converter, newest first. Entries can be searched, starred, deleted, or clicked to
+ * restore them into the converter.
+ */
+@Component({
+  selector: 'app-conversion-history',
+  templateUrl: './conversion-history.component.html',
+  styleUrls: ['./conversion-history.component.css'],
+})
+export class ConversionHistoryComponent {
+  /* Emits an entry the user wants to restore into the converter */
+  @Output() restore = new EventEmitter<ConversionHistoryEntry>();
+
+  /* Form control for text to search the history for */
+  searchControl = new FormControl('');
+  /* Only show starred entries? */
+  starredOnly = false;
+
+  constructor(
+    public history: ConversionHistoryService,
+    @Inject(LOCALE_ID) private locale: string,
+  ) { }
+
+  /* The entries matching the search */
+  get shownEntries(): ConversionHistoryEntry[] {
+    const entries = this.starredOnly ? this.history.entries.filter(entry => entry.starred) : this.history.entries;
+    return searchHistory(entries, this.searchControl.value);
+  }
+
+  /* An amount, the way the locale writes numbers */
+  formatAmount(amount: string): string {
+    return formatAmount(amount, this.locale);
+  }
+
+  trackEntry(index: number, entry: ConversionHistoryEntry): string {
+    return entry.id;
+  }
+}
@@ -0,0 +1,68 @@
+import { convertToParamMap } from '@angular/router';
+
+import { conversionLink, ConversionFormState, parseConversionLink } from './conversion-link';
+
+import { RoundingMode } from './decimal-conversion';
+
+describe('conversion links', () => {
+  const state: ConversionFormState = {
+    providerId: null,
+    fromCode: 'USD',
+    toCode: 'CAD',
+    amount: '250',
+    forward: true,
+    date: '2020-03-02',
+    compareDate: null,
+    range: null,
+    period: null,
+    rounding: RoundingMode.halfEven,
+  };
+
+  it('should read a link to a conversion', () => {
+    const params = convertToParamMap({from: 'usd', to: 'CAD', amount: '250'});
+    const query = convertToParamMap({date: '2020-03-02'});
+
+    expect(parseConversionLink(params, query)).toEqual(state);
+  });
+
+  it('should leave out defaults when making a link', () => {
+    expect(conversionLink(state)).toEqual({
+      commands: ['/convert', 'USD', 'CAD', '250'],
+      queryParams: {date: '2020-03-02'},
+    });
+  });
+
+  it('should read what it links to', () => {
+    const linked: ConversionFormState = {
+      ...state,
+      providerId: 'ecb',
+      forward: false,
+      compareDate: '2020-04-01',
+      range: {start: '2020-02-01', end: '2020-02-29'},
+      rounding: RoundingMode.truncate,
+    };
+    const {commands, queryParams} = conversionLink(linked);
+    const params = convertToParamMap({from: commands[1], to: commands[2], amount: commands[3]});
+
+    expect(parseConversionLink(params, convertToParamMap(queryParams))).toEqual(linked);
+  });
+
+  it('should link to a conversion at an official average', () => {
+    const linked: ConversionFormState = {...state, period: {mode: 'monthly', start: '2020-02-01'}};
+    const {commands, queryParams} = conversionLink(linked);
+    const params = convertToParamMap({from: commands[1], to: commands[2], amount: commands[3]});
+
+    expect(queryParams).toEqual({date: '2020-03-02', mode: 'monthly', period: '2020-02-01'});
+    expect(parseConversionLink(params, convertToParamMap(queryParams))).toEqual(linked);
+  });
+
+  it('should ignore invalid parts of a link', () => {
+    const params = convertToParamMap({from: 'USD', to: 'CAD', amount: '1,000'});
+    const query = convertToParamMap({
+      date: 'yesterday', rounding: 'up', start: '2020-03-02', end: '2020-02-01', mode: 'weekly', period: '2020-03-01',
+    });
+
+    expect(parseConversionLink(params, query)).toEqual({...state, amount: null, date: null});
+    expect(parseConversionLink(convertToParamMap({from: 'USD'}), query)).toBeNull();
+  });
+});
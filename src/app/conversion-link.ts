@@ -0,0 +1,106 @@
+import { ParamMap, Params } from '@angular/router';
+
+import { RoundingMode } from './decimal-conversion';
+import { RatePeriod } from './rate-provider';
+import { isIsoDate } from './rate-validation';
+
+/* Everything needed to put a conversion back into the converter's form */
+export interface ConversionFormState {
+  /* Source of the rates (a `RateProvider` id), or null for the default source */
+  providerId: string | null;
+  fromCode: string;
+  toCode: string;
+  /* The amount entered, as a plain decimal string, or null if no amount was entered */
+  amount: string | null;
+  /* Was the amount entered in the "from" currency (rather than the "to" currency)? */
+  forward: boolean;
+  /* Date of the conversion (YYYY-MM-DD, in the provider's time zone), or null for the latest rates */
+  date: string | null;
+  /* Date to compare the conversion with (YYYY-MM-DD), if any */
+  compareDate: string | null;
+  /* Set when the conversion uses the average rate over a range of dates (YYYY-MM-DD) */
+  range: {start: string, end: string} | null;
+  /* Set when the conversion uses the provider's official average for a month or year (starting on `start`, YYYY-MM-DD) */
+  period: {mode: RatePeriod, start: string} | null;
+  rounding: RoundingMode;
+}
+
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const CODE_PATTERN = /^[A-Z]{3}$/;
+const PERIOD_MODES: RatePeriod[] = ['monthly', 'annual'];
+
+/* A query parameter that's only used if it's a YYYY-MM-DD date */
+function dateParam(query: ParamMap, name: string): string | null {
+  const value = query.get(name);
+  return value !== null && isIsoDate(value) ? value : null;
+}
+
+/**
+ * Reads the form state from a conversion link, e.g. `/convert/USD/CAD/250?date=2020-03-02`. Returns null unless both
+ * currencies are given. Anything else that's missing or invalid is left at its default.
+ *
+ * Query parameters are `date`, `compare` (a date), `start` and `end` (the range to average rates over), `mode` and
+ * `period` (`monthly` or `annual`, and the first day of the month or year to use the official average of),
+ * `direction=reverse` (when the amount is in the "to" currency), `rounding` and `source` (a rate provider id).
+ */
+export function parseConversionLink(params: ParamMap, query: ParamMap): ConversionFormState | null {
+  const fromCode = (params.get('from') ?? '').toUpperCase();
+  const toCode = (params.get('to') ?? '').toUpperCase();
+  if (!CODE_PATTERN.test(fromCode) || !CODE_PATTERN.test(toCode)) {
+    return null;
+  }
+
+  const amount = params.get('amount');
+  const [start, end] = [dateParam(query, 'start'), dateParam(query, 'end')];
+  const [mode, period] = [query.get('mode') as RatePeriod, dateParam(query, 'period')];
+  const rounding = query.get('rounding') as RoundingMode;
+
+  return {
+    providerId: query.get('source'),
+    fromCode,
+    toCode,
+    amount: amount !== null && AMOUNT_PATTERN.test(amount) ? amount : null,
+    forward: query.get('direction') !== 'reverse',
+    date: dateParam(query, 'date'),
+    compareDate: dateParam(query, 'compare'),
+    range: start && end && start <= end ? {start, end} : null,
+    period: PERIOD_MODES.includes(mode) && period ? {mode, start: period} : null,
+    rounding: Object.values(RoundingMode).includes(rounding) ? rounding : RoundingMode.halfEven,
+  };
+}
+
+/* The route and query parameters of a link to a conversion (the reverse of `parseConversionLink()`) */
+export function conversionLink(state: ConversionFormState): {commands: string[], queryParams: Params} {
+  const commands = ['/convert', state.fromCode, state.toCode];
+  if (state.amount !== null) {
+    commands.push(state.amount);
+  }
+
+  // Defaults are left out, to keep links short
+  const queryParams: Params = {};
+  if (state.date) {
+    queryParams.date = state.date;
+  }
+  if (state.compareDate) {
+    queryParams.compare = state.compareDate;
+  }
+  if (state.range) {
+    queryParams.start = state.range.start;
+    queryParams.end = state.range.end;
+  }
+  if (state.period) {
+    queryParams.mode = state.period.mode;
+    queryParams.period = state.period.start;
+  }
+  if (!state.forward) {
+    queryParams.direction = 'reverse';
+  }
+  if (state.rounding !== RoundingMode.halfEven) {
+    queryParams.rounding = state.rounding;
+  }
+  if (state.providerId) {
+    queryParams.source = state.providerId;
+  }
+
+  return {commands, queryParams};
+}
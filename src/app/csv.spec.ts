@@ -0,0 +1,28 @@
+import { formatCsv, parseCsv } from './csv';
+
+describe('csv', () => {
+  it('should read records with the line each starts on', () => {
+    expect(parseCsv('amount,currency\r\n1.50,USD\r\n\r\n2,EUR')).toEqual([
+      {line: 1, fields: ['amount', 'currency']},
+      {line: 2, fields: ['1.50', 'USD']},
+      {line: 4, fields: ['2', 'EUR']},
+    ]);
+  });
+
+  it('should read quoted fields', () => {
+    expect(parseCsv('\uFEFFa,b\n"1,234.50","say ""hi""\nthere"\nx,\n')).toEqual([
+      {line: 1, fields: ['a', 'b']},
+      {line: 2, fields: ['1,234.50', 'say "hi"\nthere']},
+      {line: 4, fields: ['x', '']},
+    ]);
+  });
+
+  it('should quote fields when writing them', () => {
+    expect(formatCsv([['a', 'b'], ['1,234.50', 'say "hi"']])).toBe('a,b\r\n"1,234.50","say ""hi"""\r\n');
+  });
+
+  it('should read what it writes', () => {
+    const rows = [['amount', 'note'], ['1', 'line one\nline two'], ['2', '"quoted", with a comma']];
+    expect(parseCsv(formatCsv(rows)).map(record => record.fields)).toEqual(rows);
+  });
+});
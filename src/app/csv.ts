@@ -0,0 +1,77 @@
+/* A record read from a CSV file, with the line it starts on (quoted fields can span lines) */
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Reads CSV text (RFC 4180: fields separated by commas, optionally quoted with `"`, quotes escaped by doubling them).
+ * Lines may end with CRLF or LF, and blank lines are skipped.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({line: recordLine, fields});
+    }
+    fields = [];
+    field = '';
+  };
+
+  // Skip a byte order mark, which spreadsheet programs often add
+  if (text.charCodeAt(0) === 0xFEFF) {
+    i = 1;
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/* Writes rows as CSV text, quoting fields where needed */
+export function formatCsv(rows: string[][]): string {
+  return rows.map(row => row.map(field => {
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  }).join(',')).join('\r\n') + '\r\n';
+}
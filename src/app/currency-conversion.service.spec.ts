@@ -3,6 +3,15 @@ import { TestBed } from '@angular/core/testing';
 import { CurrencyConversionService } from './currency-conversion.service';
 
 import { HttpClientModule } from '@angular/common/http';
+import { of, throwError } from 'rxjs';
+
+import { RateHistory } from './rate-provider';
+import { RateCacheService } from './rate-cache.service';
+import { fixtureRateProvider, provideRateProvider } from './testing/fixture-rate-provider';
+import { RateDataError } from './rate-validation';
+import { LoadingError, LoadingErrorKind } from './loading-error';
+import { RoundingMode } from './decimal-conversion';
+import { FallbackPolicy } from './rate-fallback';
 
 describe('CurrencyConversionService', () => {
   let service: CurrencyConversionService;
@@ -19,4 +28,322 @@ describe('CurrencyConversionService', () => {
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  describe('with rates loaded', () => {
+    beforeEach(() => {
+      service.storeRates({
+        base: 'CAD',
+        timeZone: 'America/Toronto',
+        quotation: 'direct',
+        observations: [
+          {date: '2020-03-02', rates: {USD: '1.3400', EUR: '1.4800'}},
+          {date: '2020-03-03', rates: {USD: '1.3300', EUR: '1.4700'}},
+        ]
+      });
+    });
+
+    it('should convert to and from CAD with a single leg', () => {
+      const [legs, _] = service.conversionLegs('USD', 'CAD', new Date(2020, 2, 2, 12));
+      expect(legs).toEqual([{from: 'USD', to: 'CAD', rate: '1.34', published: '1.3400', inverse: false}]);
+
+      const [rate, __] = service.conversionRate('CAD', 'USD', new Date(2020, 2, 2, 12));
+      expect(rate).toBe('0.7462686567');
+    });
+
+    it('should triangulate a cross rate through CAD', () => {
+      const [legs, rateDate] = service.conversionLegs('USD', 'EUR', new Date(2020, 2, 3, 12));
+      expect(legs.length).toBe(2);
+      expect(legs[0]).toEqual({from: 'USD', to: 'CAD', rate: '1.33', published: '1.3300', inverse: false});
+      expect(legs[1].from).toBe('CAD');
+      expect(legs[1].to).toBe('EUR');
+      expect(rateDate.getDate()).toBe(3);
+
+      // 100 * 1.33 / 1.47 = 90.4761...
+      const [converted, _] = service.convert('100', 'USD', 'EUR', new Date(2020, 2, 3, 12));
+      expect(converted).toBe('90.48');
+    });
+
+    it('should round to the minor unit of the target currency', () => {
+      service.storeRates({
+        base: 'CAD',
+        timeZone: 'America/Toronto',
+        quotation: 'direct',
+        observations: [{date: '2020-03-02', rates: {JPY: '0.012500', KWD: '4.4000', USD: '1.0000'}}],
+      });
+      const on = new Date(2020, 2, 2, 12);
+
+      expect(service.convert('1000', 'CAD', 'JPY', on)[0]).toBe('80000');
+      expect(service.convert('1', 'CAD', 'KWD', on)[0]).toBe('0.227');
+      expect(service.convert('0.1', 'USD', 'CAD', on)[0]).toBe('0.10');
+    });
+
+    it('should round with the selected rounding mode', () => {
+      service.storeRates({
+        base: 'CAD',
+        timeZone: 'America/Toronto',
+        quotation: 'direct',
+        observations: [{date: '2020-03-02', rates: {USD: '1.2500'}}],
+      });
+      const on = new Date(2020, 2, 2, 12);
+
+      // 0.1 * 1.25 = 0.125 exactly, and 0.1 / 1.25 = 0.08 exactly
+      expect(service.convert('0.1', 'USD', 'CAD', on, RoundingMode.halfEven)[0]).toBe('0.12');
+      expect(service.convert('0.1', 'USD', 'CAD', on, RoundingMode.halfUp)[0]).toBe('0.13');
+      expect(service.convert('0.1', 'USD', 'CAD', on, RoundingMode.truncate)[0]).toBe('0.12');
+      expect(service.convert('0.119', 'CAD', 'USD', on, RoundingMode.truncate)[0]).toBe('0.09');
+      expect(service.convert('0.119', 'CAD', 'USD', on, RoundingMode.halfUp)[0]).toBe('0.10');
+    });
+
+    it('should give the history of a cross rate', () => {
+      expect(service.conversionRateHistory('EUR', 'USD')).toEqual([
+        {date: '2020-03-02', rate: '1.1044776119'},
+        {date: '2020-03-03', rate: '1.1052631579'},
+      ]);
+      expect(service.conversionRateHistory('USD', 'GBP')).toEqual([]);
+    });
+
+    it('should convert at the average rate over a range of dates', () => {
+      const stats = service.conversionRateStatistics('USD', 'CAD', '2020-03-01', '2020-03-31');
+      expect(stats.count).toBe(2);
+      expect(stats.mean).toBe('1.335');
+
+      expect(service.convertAtRate('100', stats.mean, 'CAD')).toBe('133.50');
+      expect(service.convertAtRate('133.50', stats.mean, 'USD', true)).toBe('100.00');
+      expect(service.conversionRateStatistics('USD', 'CAD', '2020-04-01', '2020-04-30')).toBeNull();
+    });
+
+    it('should return null when a currency has no rate', () => {
+      expect(service.conversionRate('USD', 'GBP', new Date(2020, 2, 3, 12))).toBeNull();
+    });
+
+    it('should follow the fallback policy on dates without rates', () => {
+      service.storeRates({
+        base: 'CAD',
+        timeZone: 'America/Toronto',
+        quotation: 'direct',
+        observations: [
+          {date: '2020-03-06', rates: {USD: '1.3400', EUR: '1.4800'}},
+          {date: '2020-03-10', rates: {USD: '1.3800', EUR: '1.5200'}},
+        ]
+      });
+      const sunday = new Date(2020, 2, 8, 12);
+
+      const previous = service.rateLookup('USD', 'EUR', sunday);
+      expect(previous.sources).toEqual(['2020-03-06']);
+      expect(previous.date.getDate()).toBe(6);
+
+      service.fallback = {policy: FallbackPolicy.next, maxDays: 7};
+      expect(service.convert('100', 'USD', 'CAD', sunday)).toEqual(['138.00', jasmine.any(Date)]);
+      expect(service.rateLookup('USD', 'CAD', sunday).date.getDate()).toBe(10);
+
+      service.fallback = {policy: FallbackPolicy.interpolate, maxDays: 7};
+      const interpolated = service.rateLookup('USD', 'CAD', sunday);
+      expect(interpolated.sources).toEqual(['2020-03-06', '2020-03-10']);
+      expect(interpolated.date).toBe(sunday);
+      expect(interpolated.legs[0].published).toBe('1.36');
+
+      service.fallback = {policy: FallbackPolicy.strict, maxDays: 7};
+      expect(service.convert('100', 'USD', 'CAD', sunday)).toBeNull();
+
+      service.fallback = {policy: FallbackPolicy.previous, maxDays: 1};
+      expect(service.conversionRate('USD', 'CAD', sunday)).toBeNull();
+    });
+
+    it('should track the dates each currency has rates for, and fall back over gaps in a series', () => {
+      service.storeRates({
+        base: 'CAD',
+        timeZone: 'America/Toronto',
+        quotation: 'direct',
+        observations: [
+          {date: '2020-03-02', rates: {USD: '1.3400'}},
+          {date: '2020-03-03', rates: {USD: '1.3300', VES: '0.0001'}},
+          {date: '2020-03-04', rates: {USD: '1.3200'}},
+          {date: '2020-03-05', rates: {USD: '1.3100', VES: '0.0002'}},
+        ]
+      });
+
+      const availability = service.rateAvailability(['CAD', 'USD', 'VES', 'GBP'], service.rates);
+      expect(Array.from(availability.entries())).toEqual([
+        ['CAD', {start: '2020-03-02', end: '2020-03-05'}],
+        ['USD', {start: '2020-03-02', end: '2020-03-05'}],
+        ['VES', {start: '2020-03-03', end: '2020-03-05'}],
+      ]);
+
+      // VES has no rate on 2020-03-04, so the previous day's rates are used for both currencies
+      const [legs, rateDate] = service.conversionLegs('USD', 'VES', new Date(2020, 2, 4, 12));
+      expect(legs[0].published).toBe('1.3300');
+      expect(rateDate.getDate()).toBe(3);
+
+      expect(service.getValidConversionDates(['USD', 'VES']).map(date => date.getUTCDate())).toEqual([3, 5]);
+      expect(service.getValidConversionDates().length).toBe(4);
+    });
+  });
+
+  describe('background refresh', () => {
+    function rates(observations): RateHistory {
+      return {base: 'CAD', timeZone: 'America/Toronto', quotation: 'direct', observations};
+    }
+
+    afterEach(() => {
+      service.stopBackgroundRefresh();
+    });
+
+    it('should wait for the next publication when rates are up to date', () => {
+      // 2020-03-02 was a Monday, BoC publishes at 16:30 ET (21:30 UTC)
+      const now = new Date(Date.UTC(2020, 2, 2, 22, 0));
+      service.scheduleRefresh(rates([{date: '2020-03-02', rates: {}}]), now);
+
+      expect(service.nextRefresh).toEqual(new Date(Date.UTC(2020, 2, 3, 21, 30)));
+      expect(service.refreshAttempts).toBe(0);
+    });
+
+    it('should skip weekends and holidays when waiting for the next publication', () => {
+      // 2020-04-09 was the Thursday before Good Friday
+      const now = new Date(Date.UTC(2020, 3, 9, 22, 0));
+      service.scheduleRefresh(rates([{date: '2020-04-09', rates: {}}]), now);
+
+      expect(service.nextRefresh).toEqual(new Date(Date.UTC(2020, 3, 13, 20, 30)));
+    });
+
+    it('should retry with backoff until the expected observation appears', () => {
+      const now = new Date(Date.UTC(2020, 2, 2, 22, 0));
+      const stale = rates([{date: '2020-02-28', rates: {}}]);
+
+      service.scheduleRefresh(stale, now);
+      expect(service.nextRefresh.getTime() - now.getTime()).toBe(service.refreshBackoff);
+
+      service.scheduleRefresh(stale, now);
+      expect(service.nextRefresh.getTime() - now.getTime()).toBe(service.refreshBackoff * 2);
+
+      service.scheduleRefresh(rates([{date: '2020-03-02', rates: {}}]), now);
+      expect(service.refreshAttempts).toBe(0);
+    });
+
+    it('should give up on a missing observation after too many attempts', () => {
+      const now = new Date(Date.UTC(2020, 2, 2, 22, 0));
+      service.refreshAttempts = service.maxRefreshAttempts;
+      service.scheduleRefresh(rates([{date: '2020-02-28', rates: {}}]), now);
+
+      expect(service.refreshAttempts).toBe(0);
+      expect(service.nextRefresh).toEqual(new Date(Date.UTC(2020, 2, 3, 21, 30)));
+    });
+
+    it('should publish refreshed rates through the rate store', () => {
+      const received = [];
+      service.ratesObs.subscribe(stored => received.push(stored));
+
+      const history = rates([]);
+      service.storeRates(history);
+
+      expect(received).toEqual([null, history]);
+    });
+  });
+});
+
+describe('CurrencyConversionService with a fixture rate provider', () => {
+  const history: RateHistory = {
+    base: 'EUR',
+    timeZone: 'Europe/Berlin',
+    quotation: 'indirect',
+    observations: [
+      {date: '2020-03-02', rates: {USD: '1.1000', GBP: '0.8600'}},
+    ]
+  };
+  const fixtureProvider = fixtureRateProvider(history);
+  let service: CurrencyConversionService;
+  let cache: RateCacheService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: provideRateProvider(fixtureProvider),
+    });
+    service = TestBed.inject(CurrencyConversionService);
+    cache = TestBed.inject(RateCacheService);
+    cache.clear('fixture');
+  });
+
+  afterEach(() => {
+    cache.clear('fixture');
+  });
+
+  it('should use the provider\'s base currency', () => {
+    expect(service.baseCurrency).toBe('EUR');
+  });
+
+  it('should convert using rates from the provider', (done) => {
+    service.getConversionRates().subscribe(() => {
+      const [legs, _] = service.conversionLegs('USD', 'GBP', new Date(2020, 2, 2, 12));
+      expect(legs.map(leg => leg.to)).toEqual(['EUR', 'GBP']);
+
+      // Indirect quotes are inverted for the leg into the base currency
+      expect(legs[0].rate).toBe('0.9090909091');
+      expect(legs[1].rate).toBe('0.86');
+      done();
+    });
+  });
+
+  it('should export rates in both directions with their series IDs', (done) => {
+    service.getConversionRates().subscribe(() => {
+      expect(service.rateExportRows(null, '2020-03-01', '2020-03-31')).toEqual([
+        {date: '2020-03-02', seriesId: 'FXGBPEUR', currency: 'GBP', base: 'EUR', rate: '1.1627906977', inverseRate: '0.86'},
+        {date: '2020-03-02', seriesId: 'FXUSDEUR', currency: 'USD', base: 'EUR', rate: '0.9090909091', inverseRate: '1.1'},
+      ]);
+      expect(service.rateExportRows(['USD'], '2020-03-03', '2020-03-31')).toEqual([]);
+      done();
+    });
+  });
+
+  it('should cache rates and only request newer observations', (done) => {
+    cache.save('fixture', history);
+    const spy = spyOn(fixtureProvider, 'getRateHistory').and.returnValue(of({
+      ...history,
+      observations: [{date: '2020-03-03', rates: {USD: '1.1200', GBP: '0.8700'}}],
+    }));
+
+    service.getConversionRates().subscribe(rates => {
+      expect(spy).toHaveBeenCalledWith('2020-03-03');
+      expect(rates.observations.map(o => o.date)).toEqual(['2020-03-02', '2020-03-03']);
+      expect(cache.load('fixture').observations.length).toBe(2);
+      done();
+    });
+  });
+
+  it('should give pages the stored rates, only fetching them when none are loaded', () => {
+    const fetch = spyOn(fixtureProvider, 'getRateHistory').and.callThrough();
+    const received = [];
+    const watching = [
+      service.watchRates(rates => received.push(rates), fail),
+      service.watchRates(rates => received.push(rates), fail),
+    ];
+    service.stopBackgroundRefresh();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(received).toEqual([history, history]);
+    watching.forEach(subscription => subscription.unsubscribe());
+  });
+
+  it('should describe why rates for a page could not be fetched', () => {
+    spyOn(fixtureProvider, 'getRateHistory').and.returnValue(throwError(new RateDataError('no observations')));
+    spyOn(console, 'error');
+    let loadingError: LoadingError | null = null;
+    service.watchRates(fail, error => loadingError = error).unsubscribe();
+
+    expect(loadingError.kind).toBe(LoadingErrorKind.malformedData);
+    expect(loadingError.stage).toBe('fetchingExchangeRates');
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('should only publish rates through the rate store when they have new observations', () => {
+    const received = [];
+    service.ratesObs.subscribe(stored => received.push(stored));
+    service.getConversionRates();
+
+    // A failed update falls back to the cached rates, which are already loaded
+    spyOn(fixtureProvider, 'getRateHistory').and.returnValue(throwError(new Error('offline')));
+    service.getConversionRates();
+    service.stopBackgroundRefresh();
+
+    expect(received.length).toBe(2);
+    expect(received[1].observations).toEqual(history.observations);
+  });
 });
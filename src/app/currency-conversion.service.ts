@@ -1,9 +1,17 @@
-import { Inject, Injectable, LOCALE_ID } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { map, pluck, publishReplay, refCount } from 'rxjs/operators';
+import { Inject, Injectable, LOCALE_ID, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, of, Subscription, throwError } from 'rxjs';
+import { catchError, filter, map, publishReplay, refCount, tap } from 'rxjs/operators';
 
 import { CurrencyMetadata, CURRENCY_CODE_MAP } from './currency-info.data';
+import { RateHistory, RateObservation, RatePeriod, RateProvider, RATE_PROVIDER, RATE_PROVIDERS } from './rate-provider';
+import { historyChanged, mergeRateHistory, RateCacheService } from './rate-cache.service';
+import { latestPublicationDate, nextPublicationTime } from './publication-calendar';
+import { RateDataError, validateRateHistory } from './rate-validation';
+import { conversionRate, convertAmount, convertAtRate, DEFAULT_DECIMAL_PLACES, RoundingMode } from './decimal-conversion';
+import { rateStatistics, RateStatistics } from './rate-statistics';
+import { RateExportRow } from './rate-export';
+import { daysBetween, DEFAULT_MAX_FALLBACK_DAYS, fallbackDates, FallbackOptions, FallbackPolicy, interpolateRate } from './rate-fallback';
+import { describeLoadingError, formatLoadingError, LoadingError } from './loading-error';
 
 import * as mtz from 'moment-timezone'; 
 
@@ -24,13 +32,167 @@ function currencyCodeIsNum(code: string) : boolean {
   }
 }
 
+/* The rate to convert between a pair of currencies on one day (YYYY-MM-DD), as a decimal string */
+export interface RatePoint {
+  date: string;
+  rate: string;
+}
+
+/* The first and last dates (YYYY-MM-DD) a currency has rates on */
+export interface RateAvailability {
+  start: string;
+  end: string;
+}
+
+/**
+ * One step in a conversion (e.g. USD -> CAD), where 1 unit of `from` is worth
+ * `rate` units of `to`.
+ *
+ * The leg is based on a `published` rate (as a decimal string). When `inverse`
+ * is set, amounts are divided by the published rate rather than multiplied.
+ */
+export interface ConversionLeg {
+  from: string;
+  to: string;
+  rate: string;
+  published: string;
+  inverse: boolean;
+}
+
+/**
+ * The rates used for a conversion on some date. When none were published on the date, the fallback policy decides
+ * which observations (`sources`, as YYYY-MM-DD) they come from: one earlier or later date, or the dates either side of
+ * it for interpolated rates.
+ */
+export interface RateLookup {
+  legs: ConversionLeg[];
+  /* The effective date of the rates (the date asked for, when they're interpolated or were published that day) */
+  date: Date;
+  sources: string[];
+  /* The policy used to find them (only relevant when they weren't published on the date asked for) */
+  policy: FallbackPolicy;
+}
+
 @Injectable({
   providedIn: 'root'
 })
-export class CurrencyConversionService {
-  rates : object | null = null;
+export class CurrencyConversionService implements OnDestroy {
+  rates: RateHistory | null = null;
+  /* What conversions do when no rates were published on their date, shared by every page */
+  fallback: FallbackOptions = {policy: FallbackPolicy.previous, maxDays: DEFAULT_MAX_FALLBACK_DAYS};
+
+  /**
+   * The rate store. Emits the current rate history whenever it changes (including when it's refreshed in the
+   * background), or null when no rates are loaded. Any number of subscribers can watch it.
+   */
+  private ratesSubject: BehaviorSubject<RateHistory | null> = new BehaviorSubject<RateHistory | null>(null);
+  ratesObs: Observable<RateHistory | null> = this.ratesSubject.asObservable();
+
+  /* The provider's official average rates, by period (each is only fetched once it's needed) */
+  private averageRates = new Map<RatePeriod, Observable<RateHistory>>();
+  averageHistories = new Map<RatePeriod, RateHistory>();
+
+  /* Time at which rates were last fetched */
+  lastRateFetch: Date | null = null;
+  /* Stores the interval timer handle used to check for rate updates */
+  rateUpdateInterval: any | null = null;
+  /* How many milliseconds to wait between checks for updated conversion rates */
+  rateUpdateTimeout = 60 * 1000;
+  /* Set by `requestRefresh()` to refresh on the next check, regardless of the time */
+  refreshRequested = false;
+  /* Time at which rates will next be fetched (null while a fetch is in progress) */
+  nextRefresh: Date | null = null;
+  /* How many fetches in a row have come back without the observation we expected */
+  refreshAttempts = 0;
+  /* After this many attempts we stop waiting for a missing observation, and wait for the next publication instead */
+  maxRefreshAttempts = 10;
+  /* How many milliseconds to wait before retrying a fetch, doubled after each attempt (up to `maxRefreshBackoff`) */
+  refreshBackoff = 60 * 1000;
+  maxRefreshBackoff = 30 * 60 * 1000;
+
+  constructor(
+    @Inject(RATE_PROVIDER) private provider: RateProvider,
+    /* Every source of rates the user can switch to */
+    @Inject(RATE_PROVIDERS) public providers: RateProvider[],
+    @Inject(LOCALE_ID) public locale: string,
+    private cache: RateCacheService,
+  ){
+  }
+
+  ngOnDestroy(): void {
+    this.stopBackgroundRefresh();
+  }
+
+  /* The source rates are currently being fetched from */
+  get rateProvider(): RateProvider {
+    return this.provider;
+  }
+
+  /**
+   * Switch to a different source of rates. Any rates loaded from the previous
+   * source are dropped, so the caller will need to fetch currencies and rates
+   * again.
+   */
+  useProvider(provider: RateProvider): void {
+    this.stopBackgroundRefresh();
+    this.provider = provider;
+    this.lastRateFetch = null;
+    this.nextRefresh = null;
+    this.refreshAttempts = 0;
+    this.averageRates.clear();
+    this.averageHistories.clear();
+    this.storeRates(null);
+  }
 
-  constructor(private http: HttpClient, @Inject(LOCALE_ID) public locale: string){
+  /* Whether the current provider publishes official monthly and annual average rates */
+  get publishesAverages(): boolean {
+    return this.provider.getAverageRateHistory !== undefined;
+  }
+
+  /**
+   * Provides the provider's official average rates over each month or year
+   * (see `RateProvider.getAverageRateHistory()`). They're fetched the first
+   * time they're asked for, and kept in `averageHistories` once they arrive.
+   */
+  getAverageRates(period: RatePeriod): Observable<RateHistory> {
+    if (!this.averageRates.has(period)) {
+      const provider = this.provider;
+      this.averageRates.set(period, provider.getAverageRateHistory(period).pipe(
+        map(rates => validateRateHistory(rates)),
+        tap(rates => this.averageHistories.set(period, rates)),
+        catchError(e => {
+          // Try again the next time they're asked for
+          this.averageRates.delete(period);
+          return throwError(e);
+        }),
+        publishReplay(1),
+        refCount(),
+      ));
+    }
+    return this.averageRates.get(period);
+  }
+
+  /**
+   * The legs of a conversion at the provider's official average rates for the
+   * month or year starting on `start` (YYYY-MM-DD), once they've been loaded
+   * with `getAverageRates()`. A cross rate is triangulated from each
+   * currency's average, which can differ slightly from the average of the
+   * daily cross rates.
+   *
+   * Returns null if there's no average for the period.
+   */
+  averageConversionLegs(from: string, to: string, period: RatePeriod, start: string): ConversionLeg[] | null {
+    const history = this.averageHistories.get(period);
+    const observation = history?.observations.find(o => o.date === start);
+    return observation ? this.observationLegs(observation, from, to, history) : null;
+  }
+
+  /**
+   * The currency every rate is quoted against (e.g. CAD for the Bank of Canada). Conversions between two other
+   * currencies are triangulated through it.
+   */
+  get baseCurrency(): string {
+    return this.provider.baseCurrency;
   }
 
   /**
@@ -63,132 +225,449 @@ export class CurrencyConversionService {
   }
 
   /**
-   * Provides a list of currency codes as strings that CAD can be converted
-   * to/from. The function returns an observable that will provide an array of
-   * those codes after collecting them from the BoC's API.
+   * Provides a list of currency codes as strings that can be converted between
+   * (including the base currency). The function returns an observable that
+   * will provide an array of those codes after collecting them from the rate
+   * provider.
    */
   getAvailableConversions() : Observable<string[]>{
-    let rspObserver = this.http.get(
-      'https://www.bankofcanada.ca/valet/groups/FX_RATES_DAILY/json'
-    ).pipe(
-      // 1. Get the relevant key from inside the object
-      pluck('groupDetails', 'groupSeries'),
-      // 2. Get the keys in the group series (e.g. "FX[AAA][BBB]"
-      map(series => Object.keys(series)),
-      // 3. Convert the data into a convenient format (list of available codes)
-      map((conversions: string[]) => {
-        // Break up the array key into the two codes
-        return conversions.map(x => {
-          const re = /^FX([A-Z]{3})([A-Z]{3})$/;
-          let matches  = x.match(re);
-          // won't assume it always has "CAD" as the second code in the string
-          return matches[1] == "CAD" ? matches[2] : matches[1];
-        })
-      })
-    );
-   
-    //rspObserver.subscribe(x => console.log(x));
+    return this.provider.getAvailableCurrencies();
+  }
 
-    return rspObserver;
+  /**
+   * The range of dates each of `codes` has rates for, for every one of them
+   * with at least one rate in `rates`. Some series start late, end early or
+   * have gaps (a conversion in a gap uses the currency's most recent earlier
+   * rate). The base currency covers every date.
+   */
+  rateAvailability(codes: string[], rates: RateHistory): Map<string, RateAvailability> {
+    const availability = new Map<string, RateAvailability>();
+    const observations = rates.observations;
+
+    if (observations.length > 0 && codes.includes(rates.base)) {
+      availability.set(rates.base, {start: observations[0].date, end: observations[observations.length - 1].date});
+    }
+
+    for (const observation of observations) {
+      for (const code of Object.keys(observation.rates)) {
+        if (!codes.includes(code)) {
+          continue;
+        }
+        const range = availability.get(code);
+        if (range) {
+          range.end = observation.date;
+        } else {
+          availability.set(code, {start: observation.date, end: observation.date});
+        }
+      }
+    }
+
+    return availability;
   }
 
-  /* Keep a local copy of conversion rates */
-  storeRates(rates) {
+  /* Keep a local copy of conversion rates, and let subscribers to the rate store know about them */
+  storeRates(rates: RateHistory | null): void {
     this.rates = rates;
+    this.ratesSubject.next(rates);
   }
 
   /**
-   * e.g. convert(1.00, 'CAD', 'USD')
-   *      convert(1.00, 'CAD', 'USD', new Date(2020,0,1))
+   * e.g. convert('1.00', 'CAD', 'USD', new Date(2020,0,1))
+   *      convert('1.00', 'USD', 'EUR', new Date(2020,0,1))
+   *      convert('1.00', 'USD', 'JPY', new Date(2020,0,1), RoundingMode.truncate)
+   *
+   * The conversion is done in exact decimal arithmetic, and the result is
+   * rounded to the minor unit of `to` (e.g. 2 decimal places for CAD, 0 for
+   * JPY, 3 for KWD) using the given rounding mode.
    *
    * Will return null when rates aren't loaded (or unavailable for some date),
-   * or if an invalid currency is requested. Caller is responsible for
-   * formatting the number.
+   * or if an invalid currency is requested.
    *
-   * Note that the rate is returned as a tuple of [conversion, conversion_rate_date]
+   * Note that the conversion is returned as a tuple of [conversion, conversion_rate_date]
    **/
-  convert(fromAmt: number, from: string, to: string, on: Date ) : [number, Date] | null {
-    let rate = this.conversionRate(from, to, on);
+  convert(fromAmt: string, from: string, to: string, on: Date, rounding = RoundingMode.halfEven): [string, Date] | null {
+    const legs = this.conversionLegs(from, to, on);
 
-    if (to != "CAD" && from != "CAD") {
-      console.error("conversion must include CAD");
+    if (legs === null) {
       return null;
     }
-   
+
     // Tuple of [curency conversion, conversion rate date]
-    return [fromAmt * rate[0], rate[1]];
+    const [steps, rateDate] = legs;
+    return [convertAmount(fromAmt, steps, this.decimalPlaces(to), rounding), rateDate];
+  }
+
+  /**
+   * Returns the rate to convert 1 unit of `from` into `to` (as a decimal
+   * string), along with the date of the observation the rate came from.
+   */
+  conversionRate(from: string, to: string, on: Date): [string, Date] | null {
+    const legs = this.conversionLegs(from, to, on);
+
+    if (legs === null) {
+      return null;
+    }
+
+    const [steps, rateDate] = legs;
+    return [conversionRate(steps), rateDate];
+  }
+
+  /**
+   * Converts an amount of `from` at a rate that was worked out elsewhere (e.g.
+   * an average rate for a period), where 1 `from` is worth `rate` of `to`. The
+   * result is rounded to the minor unit of `to`.
+   *
+   * To convert the other way (from `to` into `from`), set `inverse`.
+   */
+  convertAtRate(amount: string, rate: string, to: string, inverse = false, rounding = RoundingMode.halfEven): string {
+    return convertAtRate(amount, rate, inverse, this.decimalPlaces(to), rounding);
   }
 
-  conversionRate(from: string, to: string, on: Date) : [number, Date] | null {
-    let dateString = on.toLocaleDateString('en-CA', {timeZone: 'America/Toronto'});
-    let dailyRates = this.rates['observations'].find(e => e.d == dateString);
+  /* Number of decimal places amounts of a currency are rounded to (its ISO 4217 minor unit) */
+  decimalPlaces(code: string): number {
+    return this.getCurrencyMetadata(code)?.minorUnit ?? DEFAULT_DECIMAL_PLACES;
+  }
 
-    if (dailyRates === undefined) {
-      // We'll try moving backwards from the given date for at most 7 days until
-      // we find a day that has conversion data. Otherwise we give up.
-      for(var i = 1; i <= 7; i++){
-        let testDate = new Date(on.getTime());
-        testDate.setDate(testDate.getDate() - i);
-        let testDateString = testDate.toLocaleDateString('en-CA', {timeZone: 'America/Toronto'});
+  /**
+   * Rates are only published against the base currency (e.g. BoC publishes
+   * `FX{XXX}CAD` series), so a conversion between two other currencies is
+   * triangulated through the base currency (e.g. USD -> CAD -> EUR) using
+   * rates from the same observation date. This returns each step of the
+   * conversion so that the result can be audited, along with the date of the
+   * observation used.
+   *
+   * A conversion to/from the base currency has a single leg, and converting a
+   * currency to itself has none.
+   */
+  conversionLegs(from: string, to: string, on: Date): [ConversionLeg[], Date] | null {
+    const lookup = this.rateLookup(from, to, on);
+    return lookup === null ? null : [lookup.legs, lookup.date];
+  }
 
-        if (this.rates['observations'].some(e => e.d == testDateString)) {
-          dailyRates = this.rates['observations'].find(e => e.d == testDateString); 
-          on = testDate;
-          break;
+  /**
+   * Like `conversionLegs()`, but also says where the rates came from when
+   * none were published on the date, following the `fallback` policy.
+   */
+  rateLookup(from: string, to: string, on: Date): RateLookup | null {
+    const observation = this.findObservation(on, [from, to]);
+
+    if (observation === null) {
+      return null;
+    }
+
+    const [dailyRates, rateDate, sources] = observation;
+    const legs = this.observationLegs(dailyRates, from, to);
+
+    if (legs === null) {
+      console.error(`no ${from}/${to} rate available on`, rateDate);
+      return null;
+    }
+
+    return {legs, date: rateDate, sources, policy: this.fallback.policy};
+  }
+
+  /**
+   * The rate to convert 1 unit of `from` into `to` on every day with an
+   * observation for both currencies, oldest first (e.g. for charting).
+   */
+  conversionRateHistory(from: string, to: string): RatePoint[] {
+    const points: RatePoint[] = [];
+
+    for (const observation of this.rates?.observations ?? []) {
+      const legs = this.observationLegs(observation, from, to);
+      if (legs !== null) {
+        points.push({date: observation.date, rate: conversionRate(legs)});
+      }
+    }
+
+    return points;
+  }
+
+  /**
+   * Statistics (min, max, mean, etc.) for the rate to convert 1 unit of
+   * `from` into `to`, over the observations from `start` to `end` (inclusive,
+   * as YYYY-MM-DD). Returns null if there are no observations in the range.
+   */
+  conversionRateStatistics(from: string, to: string, start: string, end: string): RateStatistics | null {
+    const points = this.conversionRateHistory(from, to).filter(point => point.date >= start && point.date <= end);
+    return rateStatistics(points);
+  }
+
+  /**
+   * The published rates for each of `codes` (or every currency, when null)
+   * from `start` to `end` (inclusive, as YYYY-MM-DD), for exporting. Each
+   * row has the rate in both directions, whichever way the provider quotes
+   * it, along with the provider's series ID.
+   */
+  rateExportRows(codes: string[] | null, start: string, end: string): RateExportRow[] {
+    const base = this.rates.base;
+    const direct = this.rates.quotation === 'direct';
+    const rows: RateExportRow[] = [];
+
+    for (const observation of this.rates.observations) {
+      if (observation.date < start || observation.date > end) {
+        continue;
+      }
+
+      for (const code of codes ?? Object.keys(observation.rates).sort()) {
+        const published = observation.rates[code];
+        if (published === undefined) {
+          continue;
         }
+
+        rows.push({
+          date: observation.date,
+          seriesId: this.rateProvider.seriesId(code),
+          currency: code,
+          base,
+          rate: this.conversionLeg(code, base, published, !direct).rate,
+          inverseRate: this.conversionLeg(base, code, published, direct).rate,
+        });
       }
     }
 
-    if (dailyRates === undefined) {
-      // If dailyRates is still undefined, the user found a way to get the UI to
-      // send an invalid date to the component.
-      return null;
+    return rows;
+  }
+
+  /* The legs of a conversion using the rates in one observation, or null if either currency has no rate in it */
+  private observationLegs(observation: RateObservation, from: string, to: string, history = this.rates): ConversionLeg[] | null {
+    const base = history.base;
+    const legs: ConversionLeg[] = [];
+
+    if (from === to) {
+      return legs;
     }
 
-    // dailyRates is available, so we return the conversion rate and the date of
-    // that conversion rate
-    if (from == "CAD") {
-      let conversion = dailyRates[`FX${to}CAD`].v;
-      conversion = conversion;
-      return [1.0 / conversion, on];
-    } else if (to == "CAD") {
-      let conversion = dailyRates[`FX${from}CAD`].v;
-      return [conversion, on];
-    } else {
-      console.error("conversion must include CAD");
+    // For directly quoted rates the published value converts currency -> base,
+    // and for indirectly quoted rates it converts base -> currency
+    const direct = history.quotation === 'direct';
+
+    if (from !== base) {
+      const rate = observation.rates[from];
+      if (rate === undefined) {
+        return null;
+      }
+      legs.push(this.conversionLeg(from, base, rate, !direct));
+    }
+
+    if (to !== base) {
+      const rate = observation.rates[to];
+      if (rate === undefined) {
+        return null;
+      }
+      legs.push(this.conversionLeg(base, to, rate, direct));
+    }
+
+    return legs;
+  }
+
+  /* A leg of a conversion based on a published rate, with its exact rate for display */
+  private conversionLeg(from: string, to: string, published: string, inverse: boolean): ConversionLeg {
+    const leg = {from, to, rate: '', published, inverse};
+    leg.rate = conversionRate([leg]);
+    return leg;
+  }
+
+  /**
+   * Finds the observation for the given date with rates for each of `codes`.
+   * If the provider didn't publish rates on that day (each provider has its
+   * own holidays), or not for one of the currencies (some series have gaps),
+   * the `fallback` policy decides which rates to use instead (by default the
+   * most recent ones, at most 7 days earlier). Otherwise we give up.
+   *
+   * Interpolated rates are returned as an observation on the given date.
+   *
+   * Returns a tuple of [observation, observation_date, source_dates]
+   */
+  private findObservation(on: Date, codes: string[] = []): [RateObservation, Date, string[]] | null {
+    const timeZone = this.rates.timeZone;
+    const dateString = on.toLocaleDateString('en-CA', {timeZone});
+    const observations = this.rates.observations.filter(e => this.hasRates(e, codes));
+    const sources = fallbackDates(observations.map(e => e.date), dateString, this.fallback);
+
+    if (sources.length === 0) {
+      // Either the user found a way to get the UI to send an invalid date to
+      // the component, or the policy doesn't allow falling back that far
       return null;
     }
+
+    const [before, after] = sources.map(source => observations.find(e => e.date === source));
+
+    if (after !== undefined) {
+      const rates: {[code: string]: string} = {};
+      for (const code of codes.filter(c => c !== this.rates.base)) {
+        rates[code] = interpolateRate(before.rates[code], before.date, after.rates[code], after.date, dateString);
+      }
+      return [{date: dateString, rates}, on, sources];
+    }
+
+    // The date asked for, moved to the day of the observation
+    const rateDate = new Date(on.getTime());
+    rateDate.setDate(rateDate.getDate() + daysBetween(dateString, before.date));
+    return [before, rateDate, sources];
+  }
+
+  /* Whether an observation has a rate for each of `codes` (the base currency doesn't need one) */
+  private hasRates(observation: RateObservation, codes: string[]): boolean {
+    return codes.every(code => code === this.rates.base || code in observation.rates);
   }
 
   /**
-   * Provides a complete listing of historical exchange rates from the BoC. This
-   * function returns an observable that will provide the raw data, but does not
-   * need to be used by the caller. Once this function has been called once
+   * Provides a complete listing of historical exchange rates from the rate
+   * provider. This function returns an observable that will provide the
+   * normalized data, but does not need to be used by the caller. Once this
+   * function has been called once
+   *
+   * Rates are cached in `localStorage`, so if we've fetched them before we only
+   * ask the provider for observations newer than the newest one we have. If
+   * that request fails, the cached rates are used as they are.
+   *
+   * The observable errors with a `RateDataError` if the provider's data isn't
+   * usable (e.g. the provider's response format changed).
    */
-  getConversionRates() : Observable<object> {
-    let rspObserver = this.http.get(
-      `https://www.bankofcanada.ca/valet/observations/group/FX_RATES_DAILY/json`
-    ).pipe(
+  getConversionRates(): Observable<RateHistory> {
+    const provider = this.provider;
+    const cached = this.cache.load(provider.id);
+    let history: Observable<RateHistory>;
+
+    if (cached && cached.observations.length > 0) {
+      const newest = cached.observations[cached.observations.length - 1].date;
+      const startDate = mtz.tz(newest, cached.timeZone).add(1, 'day').format('YYYY-MM-DD');
+
+      history = provider.getRateHistory(startDate).pipe(
+        map(update => mergeRateHistory(cached, update)),
+        catchError(e => {
+          if (e instanceof RateDataError) {
+            // The provider is up, but its data has changed in a way we don't understand
+            return throwError(e);
+          }
+          console.error('unable to update cached rates, using cached rates', e);
+          return of(cached);
+        }),
+      );
+    } else {
+      history = provider.getRateHistory();
+    }
+
+    const rspObserver = history.pipe(
+      map(rates => validateRateHistory(rates)),
+      tap(rates => this.cache.save(provider.id, rates)),
       publishReplay(),
       refCount(),
     );
 
     rspObserver.subscribe({
-      next: rates => this.storeRates(rates),
-      error: e => console.error("conversion service error", e),
+      next: rates => {
+        this.lastRateFetch = new Date();
+        // A failed update (or a retry before the provider publishes) gives back the rates we already have
+        if (historyChanged(this.rates, rates)) {
+          this.storeRates(rates);
+        }
+        this.scheduleRefresh(rates);
+        this.startBackgroundRefresh();
+      },
+      error: e => {
+        console.error('conversion service error', e);
+        // Any rates we already had are still usable, but they'll be missing the observation we were after
+        this.scheduleRefresh(this.rates);
+      },
     });
 
     return rspObserver;
   }
 
+  /**
+   * For pages which show rates: calls `next` with the rates in the rate store, and again whenever they change (e.g.
+   * when they're refreshed in the background). If no rates are loaded yet they're fetched, and if that fails `error`
+   * gets a description of what went wrong. Unsubscribe when the page is destroyed.
+   */
+  watchRates(next: (rates: RateHistory) => void, error: (loadingError: LoadingError) => void): Subscription {
+    const subscription = this.ratesObs.pipe(filter(rates => rates !== null)).subscribe(next);
+
+    if (this.rates === null) {
+      subscription.add(this.getConversionRates().subscribe({
+        error: e => error(this.reportLoadingError(e, 'fetchingExchangeRates')),
+      }));
+    }
+    return subscription;
+  }
+
+  /* Describes why a stage of loading data (e.g. 'fetchingCurrencies') from the rate provider failed, and logs it */
+  reportLoadingError(error: any, stage: string): LoadingError {
+    const loadingError = describeLoadingError(error, stage, this.provider.name);
+    console.error(formatLoadingError(loadingError), error);
+    return loadingError;
+  }
+
+  /**
+   * Once rates have been loaded, the service checks periodically whether the provider has published new rates, and
+   * fetches them when it has. New rates are delivered through `ratesObs`.
+   */
+  startBackgroundRefresh(): void {
+    if (this.rateUpdateInterval === null) {
+      this.rateUpdateInterval = setInterval(() => this.handleRateUpdateTimer(), this.rateUpdateTimeout);
+    }
+  }
+
+  stopBackgroundRefresh(): void {
+    clearInterval(this.rateUpdateInterval);
+    this.rateUpdateInterval = null;
+  }
+
+  /**
+   * Refresh rates on the next check, even if the provider shouldn't have published new ones yet (used to test the
+   * refresh, with the query `/?forceRateRefresh=true`)
+   */
+  requestRefresh(): void {
+    this.refreshRequested = true;
+  }
+
+  /* Fetch new rates if a refresh is due */
+  handleRateUpdateTimer(now: Date = new Date()): void {
+    if (this.refreshRequested || (this.nextRefresh !== null && now >= this.nextRefresh)) {
+      this.refreshRequested = false;
+      this.nextRefresh = null;
+      this.getConversionRates();
+    }
+  }
+
+  /**
+   * Works out when rates should next be fetched, after a fetch has completed. If the rates include the observation
+   * from the provider's most recent publication day, we wait until the provider's next publication (skipping its
+   * holidays). Otherwise the provider is late (or the fetch failed), so we retry with an increasing delay until the
+   * observation appears, or we give up and wait for the next publication.
+   *
+   * The parameter `now` is used for testing.
+   */
+  scheduleRefresh(rates: RateHistory | null, now: Date = new Date()): void {
+    const expected = latestPublicationDate(this.provider, now);
+    const observations = rates?.observations ?? [];
+    const newest = observations.length > 0 ? observations[observations.length - 1].date : null;
+
+    if (rates !== null && (expected === null || (newest !== null && newest >= expected))) {
+      this.refreshAttempts = 0;
+      this.nextRefresh = nextPublicationTime(this.provider, now);
+    } else if (this.refreshAttempts < this.maxRefreshAttempts) {
+      const delay = Math.min(this.refreshBackoff * 2 ** this.refreshAttempts, this.maxRefreshBackoff);
+      this.refreshAttempts++;
+      this.nextRefresh = new Date(now.getTime() + delay);
+      console.warn(`rates for ${expected} aren't available yet, will try again at`, this.nextRefresh);
+    } else {
+      console.warn(`rates for ${expected} never became available, waiting for the next publication`);
+      this.refreshAttempts = 0;
+      this.nextRefresh = nextPublicationTime(this.provider, now);
+    }
+  }
+
   /**
    * If conversion data has been fetched, give the caller an array of valid
-   * Date objects for conversion
+   * Date objects for conversion (only the dates with rates for each of
+   * `codes`, when given)
    **/
-  getValidConversionDates() : Date[] | null {
+  getValidConversionDates(codes: string[] = []): Date[] | null {
     if (this.rates) {
-      let observations = this.rates['observations'];
-      let dates = observations.map((o) => mtz.tz(o['d'] + 'T00:00:00', 'America/Toronto').toDate());
+      const observations = this.rates.observations.filter((o) => this.hasRates(o, codes));
+      const dates = observations.map((o) => mtz.tz(o.date + 'T00:00:00', this.rates.timeZone).toDate());
 
       return dates;
     } 
@@ -2,7 +2,19 @@ import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { CurrencyConversionComponent } from './currency-conversion.component';
 
-import { HttpClientModule } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+import { Location } from '@angular/common';
+import { ActivatedRoute, convertToParamMap } from '@angular/router';
+import { of } from 'rxjs';
+
+import { LoadingErrorKind } from '../loading-error';
+import { CurrencyConversionService } from '../currency-conversion.service';
+import { ConversionHistoryService } from '../conversion-history.service';
+import { RateCacheService } from '../rate-cache.service';
+import { RoundingMode } from '../decimal-conversion';
+import { FallbackPolicy } from '../rate-fallback';
+import { FeeProfilesService } from '../fee-profiles.service';
 
 describe('CurrencyConversionComponent', () => {
   let component: CurrencyConversionComponent;
@@ -11,7 +23,8 @@ describe('CurrencyConversionComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [
-        HttpClientModule, 
+        HttpClientTestingModule,
+        RouterTestingModule,
       ],
       declarations: [ CurrencyConversionComponent ]
     })
@@ -27,4 +40,331 @@ describe('CurrencyConversionComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should describe a failed stage, log it, and retry only that stage', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+
+    httpMock.expectOne(req => req.url.includes('/groups/')).flush('unavailable', {
+      status: 503, statusText: 'Service Unavailable',
+    });
+    expect(component.currentStateSubject.value).toBe('loadingError');
+    expect(component.loadingError.kind).toBe(LoadingErrorKind.httpStatus);
+    expect(component.loadingErrorLog.length).toBe(1);
+    expect(component.loadingErrorLog[0]).toMatch(/^\d{4}-\d{2}-\d{2}T.* \[fetchingCurrencies\] httpStatus: 503/);
+
+    component.retry();
+    expect(component.currentStateSubject.value).toBe('fetchingCurrencies');
+    expect(component.loadingError).toBeNull();
+    httpMock.expectOne(req => req.url.includes('/groups/'));
+    httpMock.expectNone(req => req.url.includes('/observations/'));
+  });
+
+  it('should compare a conversion with the same conversion on another date', () => {
+    TestBed.inject(CurrencyConversionService).storeRates({
+      base: 'CAD',
+      timeZone: 'America/Toronto',
+      quotation: 'direct',
+      observations: [
+        {date: '2020-03-02', rates: {USD: '1.3400'}},
+        {date: '2020-03-06', rates: {USD: '1.3500'}},
+      ],
+    });
+    expect(component.compareConversion('100', 'USD', 'CAD', '134.00', '1.34')).toBeNull();
+
+    // There's no rate on the weekend, so Friday's rate is used
+    component.compareDateControl.setValue(new Date(2020, 2, 8, 12));
+    const [amount, rate, rateDate, difference, percent] = component.compareConversion('100', 'USD', 'CAD', '134.00', '1.34');
+    expect([amount, rate, difference]).toEqual(['135.00', '1.35', '1']);
+    expect(rateDate.getDate()).toBe(6);
+    expect(percent).toBe('0.7462686567');
+  });
+
+  it('should only allow dates with published rates, step between them, and note when a fallback rate was used', () => {
+    const rates = {
+      base: 'CAD',
+      timeZone: 'America/Toronto',
+      quotation: 'direct' as const,
+      observations: [
+        {date: '2020-03-05', rates: {USD: '1.3400'}},
+        {date: '2020-03-06', rates: {USD: '1.3500'}},
+        {date: '2020-03-09', rates: {USD: '1.3600'}},
+      ],
+    };
+    TestBed.inject(CurrencyConversionService).storeRates(rates);
+    component.setDateRange(rates);
+
+    // The filter is called by the datepicker, without the component as `this`
+    const filter = component.publicationDateFilter;
+    expect(filter(new Date(2020, 2, 6, 12))).toBe(true);
+    expect(filter(new Date(2020, 2, 7, 12))).toBe(false);
+    expect(filter(new Date(2020, 2, 10, 12))).toBe(true);
+
+    component.dateControl.setValue(new Date(2020, 2, 7, 12));
+    component.stepPublicationDate(-1);
+    expect(component.rateDateString(component.dateControl.value)).toBe('2020-03-06');
+    component.stepPublicationDate(1);
+    component.stepPublicationDate(1);
+    expect(component.rateDateString(component.dateControl.value)).toBe('2020-03-09');
+    component.stepPublicationDate(1);
+    expect(component.rateDateString(component.dateControl.value)).toBe('2020-03-09');
+
+    component.dateControl.setValue(new Date(2020, 2, 8, 12));
+    component.lastConversion = ['USD', 'CAD', '1.35', new Date(2020, 2, 6, 12), []];
+    expect(component.fallbackFrom).toBe('2020-03-08');
+    expect(component.publicationDateClass(new Date(2020, 2, 6, 12))).toBe('fallbackRateDate');
+    expect(component.publicationDateClass(new Date(2020, 2, 5, 12))).toBe('');
+  });
+
+  it('should list currencies with rates for part of the range, and narrow the dates when one is selected', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    const service = TestBed.inject(CurrencyConversionService);
+    TestBed.inject(RateCacheService).clear('boc');
+
+    httpMock.expectOne(req => req.url.includes('/groups/')).flush({
+      groupDetails: {groupSeries: {FXUSDCAD: {}, FXVESCAD: {}}},
+    });
+    httpMock.expectOne(req => req.url.includes('/observations/')).flush({
+      observations: [
+        {d: '2020-03-02', FXUSDCAD: {v: '1.3400'}},
+        {d: '2020-03-03', FXUSDCAD: {v: '1.3300'}, FXVESCAD: {v: '0.0001'}},
+        {d: '2020-03-04', FXUSDCAD: {v: '1.3200'}, FXVESCAD: {v: '0.0002'}},
+        {d: '2020-03-05', FXUSDCAD: {v: '1.3100'}},
+      ],
+    });
+    expect(component.currentStateSubject.value).toBe('ready');
+    expect(component.options.map(currency => currency.alphaCode)).toContain('VES');
+
+    const usd = component.options.find(currency => currency.alphaCode === 'USD');
+    const ves = component.options.find(currency => currency.alphaCode === 'VES');
+    expect(component.partialAvailability(usd)).toBeNull();
+    expect(component.partialAvailability(ves)).toEqual({start: '2020-03-03', end: '2020-03-04'});
+
+    component.fromSelection = usd;
+    component.toSelection = ves;
+    component.handleCurrencySelection();
+    expect(component.rateDateString(component.minDate)).toBe('2020-03-03');
+    expect(component.rateDateString(component.maxDate)).toBe('2020-03-04');
+    expect(component.rateDateString(component.dateControl.value)).toBe('2020-03-04');
+    expect(component.publicationDateFilter(new Date(2020, 2, 5, 12))).toBe(false);
+
+    // Back to the full range once the currency is cleared
+    component.toSelection = null;
+    component.handleCurrencySelection();
+    expect(component.rateDateString(component.minDate)).toBe('2020-03-02');
+
+    service.stopBackgroundRefresh();
+    TestBed.inject(RateCacheService).clear('boc');
+  });
+
+  it('should explain a missing rate under a strict fallback policy, and where a fallback rate came from', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    TestBed.inject(RateCacheService).clear('boc');
+
+    httpMock.expectOne(req => req.url.includes('/groups/')).flush({groupDetails: {groupSeries: {FXUSDCAD: {}}}});
+    httpMock.expectOne(req => req.url.includes('/observations/')).flush({
+      observations: [{d: '2020-03-06', FXUSDCAD: {v: '1.3400'}}, {d: '2020-03-10', FXUSDCAD: {v: '1.3800'}}],
+    });
+    component.fromSelection = component.options.find(currency => currency.alphaCode === 'USD');
+    component.handleCurrencySelection();
+    component.dateControl.setValue(new Date(2020, 2, 8, 12), {emitEvent: false});
+    // (the amount field is enabled once the currency selection settles)
+    component.fromAmountControl.enable();
+    component.fromAmountControl.setValue('100');
+    expect(component.toAmount).toBe('134.00');
+    expect(component.fallbackNote).toBe('using the previous publication, as none were published on 2020-03-08');
+
+    component.fallbackPolicyControl.setValue(FallbackPolicy.interpolate);
+    expect(component.toAmount).toBe('136.00');
+    expect(component.fallbackNote).toBe('interpolated between 2020-03-06 and 2020-03-10, as none were published on 2020-03-08');
+
+    component.fallbackPolicyControl.setValue(FallbackPolicy.strict);
+    expect(component.lastConversion).toBeNull();
+    expect(component.toAmountControl.value).toBe('');
+    expect(component.conversionUnavailable).toBe('No USD to CAD rate on 2020-03-08; fallback policy: none (strict)');
+
+    TestBed.inject(CurrencyConversionService).stopBackgroundRefresh();
+    TestBed.inject(RateCacheService).clear('boc');
+  });
+
+  it('should convert at the official monthly average for the selected month', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    const history = TestBed.inject(ConversionHistoryService);
+    history.clear();
+    TestBed.inject(RateCacheService).clear('boc');
+
+    httpMock.expectOne(req => req.url.includes('/groups/')).flush({groupDetails: {groupSeries: {FXUSDCAD: {}}}});
+    httpMock.expectOne(req => req.url.includes('/observations/group/FX_RATES_DAILY')).flush({
+      observations: [{d: '2020-03-02', FXUSDCAD: {v: '1.3400'}}],
+    });
+    component.fromSelection = component.options.find(currency => currency.alphaCode === 'USD');
+    component.handleCurrencySelection();
+    component.fromAmountControl.enable();
+    component.fromAmountControl.setValue('100', {emitEvent: false});
+
+    expect(component.publishesAverages).toBe(true);
+    component.modeControl.setValue('monthly');
+    expect(component.loadingAverages).toBe(true);
+    httpMock.expectOne(req => req.url.includes('/observations/group/FX_RATES_MONTHLY')).flush({
+      observations: [{d: '2020-02-01', FXMUSDCAD: {v: '1.3394'}}, {d: '2020-03-01', FXMUSDCAD: {v: '1.3953'}}],
+    });
+
+    // The latest month is selected to begin with
+    expect(component.periodControl.value).toEqual(new Date(2020, 2, 1));
+    expect(component.toAmount).toBe('139.53');
+    expect(component.lastConversion[2]).toBe('1.3953');
+
+    component.periodControl.setValue(new Date(2020, 1, 1));
+    expect(component.toAmount).toBe('133.94');
+    expect(history.entries[0]).toEqual(jasmine.objectContaining({
+      toAmount: '133.94', rate: '1.3394', rateDate: '2020-02-01', period: {mode: 'monthly', start: '2020-02-01'},
+    }));
+    expect(TestBed.inject(Location).path()).toContain('mode=monthly&period=2020-02-01');
+
+    component.periodControl.setValue(new Date(2019, 11, 1));
+    expect(component.lastConversion).toBeNull();
+    expect(component.conversionUnavailable).toBe('No monthly average USD to CAD rate for December 2019');
+
+    TestBed.inject(CurrencyConversionService).stopBackgroundRefresh();
+    TestBed.inject(RateCacheService).clear('boc');
+    history.clear();
+  });
+
+  it('should show the fees of the selected fee profile alongside the mid-market conversion', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    const feeProfiles = TestBed.inject(FeeProfilesService);
+    feeProfiles.clear();
+    TestBed.inject(RateCacheService).clear('boc');
+
+    httpMock.expectOne(req => req.url.includes('/groups/')).flush({groupDetails: {groupSeries: {FXUSDCAD: {}}}});
+    httpMock.expectOne(req => req.url.includes('/observations/')).flush({
+      observations: [{d: '2020-03-02', FXUSDCAD: {v: '1.3400'}}],
+    });
+    component.fromSelection = component.options.find(currency => currency.alphaCode === 'USD');
+    component.handleCurrencySelection();
+    component.dateControl.setValue(new Date(2020, 2, 2, 12), {emitEvent: false});
+    component.fromAmountControl.enable();
+    component.fromAmountControl.setValue('100');
+    expect(component.feeBreakdown).toBeNull();
+
+    const card = feeProfiles.save({name: 'Card', spreadPercent: '2.5', fixedFee: '1', minimumFee: '0', feeCurrency: 'from'});
+    feeProfiles.select(card.id);
+    expect(component.feeProfileControl.value).toBe(card.id);
+    // The mid-market conversion is unchanged
+    expect(component.toAmount).toBe('134.00');
+    expect(component.feeBreakdown).toEqual(jasmine.objectContaining({
+      paid: '100.00', received: '129.31', total: '3.50', effectiveRate: '1.2931',
+    }));
+
+    component.feeProfileControl.setValue(null);
+    expect(feeProfiles.selected).toBeNull();
+    expect(component.feeBreakdown).toBeNull();
+
+    TestBed.inject(CurrencyConversionService).stopBackgroundRefresh();
+    TestBed.inject(RateCacheService).clear('boc');
+    feeProfiles.clear();
+  });
+
+  it('should record conversions in the history, and restore them', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    const history = TestBed.inject(ConversionHistoryService);
+    history.clear();
+    TestBed.inject(RateCacheService).clear('boc');
+
+    httpMock.expectOne(req => req.url.includes('/groups/')).flush({groupDetails: {groupSeries: {FXUSDCAD: {}}}});
+    httpMock.expectOne(req => req.url.includes('/observations/')).flush({
+      observations: [{d: '2020-03-02', FXUSDCAD: {v: '1.3400'}}],
+    });
+    expect(component.currentStateSubject.value).toBe('ready');
+
+    component.restoreConversion({
+      id: 'restored',
+      time: '2020-03-02T12:00:00Z',
+      providerId: 'boc',
+      fromAmount: '100',
+      fromCode: 'USD',
+      toAmount: '134.00',
+      toCode: 'CAD',
+      forward: true,
+      rate: '1.34',
+      date: '2020-03-02',
+      rateDate: '2020-03-02',
+      range: null,
+      rounding: RoundingMode.halfEven,
+      starred: false,
+    });
+
+    expect(component.fromSelection.alphaCode).toBe('USD');
+    expect(component.toAmount).toBe('134.00');
+    expect(history.entries.length).toBe(1);
+    expect(history.entries[0]).toEqual(jasmine.objectContaining({
+      fromAmount: '100', toAmount: '134.00', rate: '1.34', rateDate: '2020-03-02', providerId: 'boc',
+    }));
+
+    TestBed.inject(CurrencyConversionService).stopBackgroundRefresh();
+    TestBed.inject(RateCacheService).clear('boc');
+    history.clear();
+  });
+});
+
+describe('CurrencyConversionComponent opened from a link', () => {
+  let component: CurrencyConversionComponent;
+  let fixture: ComponentFixture<CurrencyConversionComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        HttpClientTestingModule,
+        RouterTestingModule,
+      ],
+      providers: [
+        {provide: ActivatedRoute, useValue: {
+          snapshot: {
+            paramMap: convertToParamMap({from: 'CAD', to: 'USD', amount: '134'}),
+            queryParamMap: convertToParamMap({date: '2020-03-03', direction: 'reverse'}),
+          },
+          queryParams: of({}),
+        }},
+      ],
+      declarations: [ CurrencyConversionComponent ]
+    })
+    .compileComponents();
+    TestBed.inject(RateCacheService).clear('boc');
+    TestBed.inject(ConversionHistoryService).clear();
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(CurrencyConversionComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    TestBed.inject(CurrencyConversionService).stopBackgroundRefresh();
+    TestBed.inject(RateCacheService).clear('boc');
+    TestBed.inject(ConversionHistoryService).clear();
+  });
+
+  it('should restore the linked conversion once rates are loaded, and keep the link up to date', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    httpMock.expectOne(req => req.url.includes('/groups/')).flush({groupDetails: {groupSeries: {FXUSDCAD: {}}}});
+    httpMock.expectOne(req => req.url.includes('/observations/')).flush({
+      observations: [{d: '2020-03-02', FXUSDCAD: {v: '1.3400'}}],
+    });
+
+    expect(component.fromSelection.alphaCode).toBe('CAD');
+    expect(component.toSelection.alphaCode).toBe('USD');
+    expect(component.convertForward).toBeFalse();
+    // There are no rates on 2020-03-03, so the day before is used
+    expect(component.fromAmount).toBe('179.56');
+    expect(TestBed.inject(Location).path()).toBe('/convert/CAD/USD/134?date=2020-03-03&direction=reverse');
+
+    component.toAmountControl.setValue('10');
+    expect(TestBed.inject(Location).path()).toBe('/convert/CAD/USD/10?date=2020-03-03&direction=reverse');
+
+    // The link follows the form even when there's no amount to convert
+    component.toAmountControl.setValue('');
+    component.roundingControl.setValue(RoundingMode.truncate);
+    component.dateControl.setValue(new Date(2020, 2, 2, 12));
+    expect(TestBed.inject(Location).path()).toBe('/convert/CAD/USD?date=2020-03-02&direction=reverse&rounding=truncate');
+  });
 });
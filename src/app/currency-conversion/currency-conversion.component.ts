@@ -1,16 +1,28 @@
-import { Component, Inject, OnInit, ElementRef, ViewChild } from '@angular/core';
-import { FormControl, Validators } from '@angular/forms';
-import { ActivatedRoute } from '@angular/router';
+import { Component, Inject, LOCALE_ID, OnDestroy, OnInit, ElementRef, ViewChild } from '@angular/core';
+import { FormControl, FormGroup, Validators } from '@angular/forms';
+import { Location } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
 
-import { Observable, Subscription, BehaviorSubject } from 'rxjs';
-import { map, startWith } from 'rxjs/operators';
+import { Observable, Subscription, BehaviorSubject, combineLatest } from 'rxjs';
+import { filter, map, startWith } from 'rxjs/operators';
 
-import { CurrencyConversionService } from '../currency-conversion.service';
+import { ConversionLeg, CurrencyConversionService, RateAvailability, RateLookup, RatePoint } from '../currency-conversion.service';
 import { CurrencyMetadata } from '../currency-info.data';
+import { RateHistory, RatePeriod, RateProvider } from '../rate-provider';
+import { PartialRateDataError } from '../rate-validation';
+import { describeLoadingError, formatLoadingError, LoadingError } from '../loading-error';
+import { conversionRate, convertAmount, difference, percentChange, RoundingMode } from '../decimal-conversion';
+import { RateStatistics } from '../rate-statistics';
+import { ConversionHistoryEntry, ConversionHistoryService } from '../conversion-history.service';
+import { CurrencyOptionGroup, CurrencyPreferencesService, groupCurrencyOptions } from '../currency-preferences.service';
+import { conversionLink, ConversionFormState, parseConversionLink } from '../conversion-link';
+import { describeFallback, FALLBACK_POLICIES, FallbackPolicy, fallbackPolicyLabel } from '../rate-fallback';
+import { FeeBreakdown, FeeProfile, feesOnAmountPaid, feesOnAmountReceived } from '../fees';
+import { FeeProfilesService } from '../fee-profiles.service';
 
 import { CurrencyValidator } from '../currency-validator.directive';
-
-import { MatDialog, MatDialogRef, MAT_DIALOG_DATA } from '@angular/material/dialog';
+import { AmountValidator } from '../amount-validator.directive';
+import { formatAmount, parseAmount } from '../amount-parser';
 
 import * as mtz from 'moment-timezone';
 
@@ -28,32 +40,6 @@ enum ConverterState {
   loadingError = 'loadingError',
 }
 
-/**
- * A dialog used by `CurrencyConversionComponent` to prompt the user to check for new rates.
- **/
-@Component({
-  selector: 'dialog-prompt-rate-check',
-  template: `
-<h1 mat-dialog-title>New rates are available</h1>
-<div mat-dialog-content>
-  <p>The Bank of Canada publishes new rates every day at 16:30 ET</p>
-  <p>Would you like to fetch the new rates?</p>
-</div>
-<div mat-dialog-actions>
-<button mat-flat-button [mat-dialog-close]="true">Fetch new rates</button>
-<button mat-flat-button [mat-dialog-close]="false">Not now</button>
-</div>
-  `,
-})
-export class DialogPromptRateCheck implements OnInit {
-  constructor(
-    public dialogRef: MatDialogRef<DialogPromptRateCheck>,
-    @Inject(MAT_DIALOG_DATA) public data : any
-  ) {}
-
-  ngOnInit() {}
-}
-
 /**
  * The main component which wraps up all the logic needed to perform and display currency conversions.
  **/
@@ -62,86 +48,211 @@ export class DialogPromptRateCheck implements OnInit {
   templateUrl: './currency-conversion.component.html',
   styleUrls: ['./currency-conversion.component.css'],
 })
-export class CurrencyConversionComponent implements OnInit {
-  /* Input field for amount of foreign currency to be converted */
-  @ViewChild('inputFX') inputFX: ElementRef;
-  /* Input field for amount of Canadian currency to be converted */
-  @ViewChild('inputCAD') inputCAD: ElementRef;
+export class CurrencyConversionComponent implements OnInit, OnDestroy {
+  /* Input field for amount of the "from" currency */
+  @ViewChild('inputFrom') inputFrom: ElementRef;
+  /* Input field for amount of the "to" currency */
+  @ViewChild('inputTo') inputTo: ElementRef;
 
   /* Used to communicate loading state aynchronously to template */
   currentStateSubject : BehaviorSubject<string> = new BehaviorSubject<string>("");
   currentStateObs : Observable<string> = this.currentStateSubject.asObservable();
 
-  /* Options for foreign currency conversions (e.g. 'CAD', 'USD', 'EUR') */
+  /* Options for currency conversions (e.g. 'CAD', 'USD', 'EUR') */
   options : CurrencyMetadata[] = [];
 
-  /* Form control for selecting a foreign currency */
-  fxCurrencyControl = new FormControl('', [CurrencyValidator()]);
-  /* Based on user input in foreign currency field, options that still match */
-  filteredOptions: Observable<CurrencyMetadata[]>;
+  /* Sources of exchange rates the user can choose from (e.g. Bank of Canada, European Central Bank) */
+  rateProviders: RateProvider[] = [];
+  /* Form control for selecting the source of exchange rates */
+  rateSourceControl = new FormControl(null);
 
-  /* regex for valid entries of currency amount */
-  amountPattern = "^(0|([1-9][0-9]*))(\.[0-9]{1,4})?$";
+  /* Form controls for selecting the currencies to convert from/to */
+  fromCurrencyControl = new FormControl('', [CurrencyValidator()]);
+  toCurrencyControl = new FormControl('', [CurrencyValidator()]);
+  /* Based on user input in each currency field, options that still match (favorites and recently used ones first) */
+  filteredFromOptions: Observable<CurrencyOptionGroup[]>;
+  filteredToOptions: Observable<CurrencyOptionGroup[]>;
 
-  /* Form controls for amount inputs */
-  fxAmountControl = new FormControl(
+  /**
+   * Form controls for amount inputs. Amounts are written the way the locale writes numbers (e.g. "1,234.50" in en-US,
+   * "1 234,50" in fr-CA), with no more decimal places than the selected currency allows.
+   */
+  fromAmountControl = new FormControl(
     {value: '', disabled: true},
-    [Validators.pattern(this.amountPattern)]
+    [AmountValidator(this.locale, () => this.fromSelection, currency => this.conversionService.decimalPlaces(currency.alphaCode))]
   );
-  cadAmountControl = new FormControl(
+  toAmountControl = new FormControl(
     {value: '', disabled: true},
-    [Validators.pattern(this.amountPattern)]
+    [AmountValidator(this.locale, () => this.toSelection, currency => this.conversionService.decimalPlaces(currency.alphaCode))]
   );
+  /* The amounts in the last conversion as plain decimal strings (the amount controls hold them as the locale writes them) */
+  fromAmount: string | null = null;
+  toAmount: string | null = null;
+
+  /* Ways the converted amount can be rounded to the currency's minor unit */
+  roundingModes: {mode: RoundingMode, label: string}[] = [
+    {mode: RoundingMode.halfEven, label: 'Half to even'},
+    {mode: RoundingMode.halfUp, label: 'Half up'},
+    {mode: RoundingMode.truncate, label: 'Truncate'},
+  ];
+  /* Form control for selecting how converted amounts are rounded (kept when the component restarts) */
+  roundingControl = new FormControl(RoundingMode.halfEven);
+
+  /* What to do when no rates were published on the selected date */
+  fallbackPolicies = FALLBACK_POLICIES;
+  /* Form controls for the fallback policy, and how many days away it looks for rates (kept by the conversion service) */
+  fallbackPolicyControl = new FormControl(this.conversionService.fallback.policy);
+  maxFallbackDaysControl = new FormControl(this.conversionService.fallback.maxDays, [
+    Validators.required, Validators.min(1), Validators.max(31),
+  ]);
+
+  /* Form control for selecting the fee profile conversions are shown with (null for the mid-market rate only) */
+  feeProfileControl = new FormControl(this.feeProfiles.selected?.id ?? null);
+  /* Is the editor for fee profiles shown? */
+  feeProfilesShown = false;
 
   /* Form control for selecting a date for the conversion */
   dateControl = new FormControl({value: null, disabled: true});
+  /* Form control for an optional second date, to compare the conversion with (e.g. the date an invoice was paid) */
+  compareDateControl = new FormControl(null);
+
+  /**
+   * Whether conversions use the rate on a single 'date', the average rate over a date 'range', or the provider's
+   * official 'monthly' or 'annual' average
+   */
+  modeControl = new FormControl('date');
+  /* Form control for the month or year of an official average (the first day of the period) */
+  periodControl = new FormControl(null);
+  /* The first and last periods with official averages, for the period picker */
+  minPeriod: Date | null = null;
+  maxPeriod: Date | null = null;
+  /* Set while the official averages are fetched, or why they couldn't be */
+  loadingAverages = false;
+  averagesError: string | null = null;
+  /* Form controls for selecting a range of dates, for conversions at the average rate over the range */
+  rangeGroup = new FormGroup({
+    start: new FormControl(null),
+    end: new FormControl(null),
+  });
+  /* Statistics for the rate between the selected currencies over the selected range */
+  lastStatistics: RateStatistics | null = null;
   /* BoC doesn't publish rates every day */
   validConversionDates : Date[] = [];
+  /* The same dates as YYYY-MM-DD strings, so the datepicker can check each day of its calendar quickly */
+  validDateStrings = new Set<string>();
+  /* The dates each listed currency has rates between (some series start late or end early) */
+  availability = new Map<string, RateAvailability>();
   /* used to limit range of selectable dates */
   minDate : Date;
   maxDate : Date;
 
-  /* tuple: [fromCode, toCode, conversionRate, conversionRateDate], last conversion made */
-  lastConversion : [string, string, number, Date] | null = null;
+  /**
+   * tuple: [fromCode, toCode, conversionRate, conversionRateDate, conversionLegs], last conversion made. The legs show
+   * how the rate was triangulated through CAD.
+   */
+  lastConversion: [string, string, string, Date, ConversionLeg[]] | null = null;
+
+  /**
+   * tuple: [convertedAmount, conversionRate, conversionRateDate, difference, percentDifference], the last conversion
+   * made again on the comparison date. The difference is in the converted currency, and the percent difference is the
+   * change in the rate (both from the conversion date to the comparison date).
+   */
+  lastComparison: [string, string, Date, string, string] | null = null;
+  /* Where the rates for the last conversion on a single date came from (see `fallbackNote`) */
+  lastLookup: RateLookup | null = null;
+  /* Why there's no conversion, when the fallback policy doesn't allow any rates for the selected date */
+  conversionUnavailable: string | null = null;
+
+  /* History of the rate between the selected currencies, for the chart */
+  chartPoints: RatePoint[] = [];
+  /* Date (YYYY-MM-DD) of the rate used in the last conversion, marked on the chart */
+  chartSelectedDate: string | null = null;
 
-  /* Has the user selected a valid foreign currency yet? */
-  _foreignSelected = false;
-  /* Which foreign currency the user has selected */
-  foreignSelection : CurrencyMetadata | null = null;
-  /* Is the user converting to CAD? */
-  toCAD = true;
+  /* Has the user selected valid currencies to convert between yet? */
+  currenciesSelectedValue = false;
 
   /**
-   * The component can restart if new rates are available, so we track subscriptions made so that they can be
-   * unsubscribed before restarting.
+   * When the user selects a pair of currencies, amount controls need to be enabled/disabled according to whether or not
+   * a selection is made.
+   */
+  set currenciesSelected(selected: boolean) {
+    if (selected) {
+      setTimeout(() => {
+        if (this.convertForward) {
+          this.fromAmountControl.enable();
+        } else {
+          this.toAmountControl.enable();
+        }
+      }, 0);
+    } else {
+      setTimeout(() => {
+        this.fromAmountControl.disable();
+        this.toAmountControl.disable();
+      }, 0);
+    }
+    this.currenciesSelectedValue = selected;
+  }
+  get currenciesSelected(): boolean {
+    return this.currenciesSelectedValue;
+  }
+
+  /* Which currencies the user has selected */
+  fromSelection: CurrencyMetadata | null = null;
+  toSelection: CurrencyMetadata | null = null;
+  /* Is the user converting "from" -> "to" (rather than entering an amount in the "to" field)? */
+  convertForward = true;
+
+  /**
+   * The component restarts when the user switches to another source of rates, so we track subscriptions made so that
+   * they can be unsubscribed before restarting.
    **/
   valueChangeSubscriptions : Subscription[] = [];
 
-  /* Time at which BoC rates were last fetched */
-  easternTimeLastRateFetch : Date | null = null;
-  /* Stores the interval timer handle used to check for rate updates */
-  rateUpdateInterval : any | null = null;
-  /* How many seconds to wait before checking if updated conversion rates are available */
-  rateUpdateTimeout = 60 * 1000;
-  /* Time after which new rates become available on weekdays */
-  fetchRatesAfterHour = 16;
-  fetchRatesAfterMinute = 30;
-  /* If the user declines to fetch new rates */
-  userSkippedRateRefresh = false;
-  /* Can be set by adding query parameter `/?forceUpdatePrompt=true`, used to test the prompt */
-  _forceUpdatePrompt : boolean = false;
+  /* When loading fails, this describes what went wrong */
+  loadingError: LoadingError | null = null;
+  /* The loading stage that failed, which is restarted when the user retries */
+  failedStage: ConverterState | null = null;
+  /* Every loading failure since the page was opened, so that the user can copy them into a support ticket */
+  loadingErrorLog: string[] = [];
+
+  /* Date of the newest observation in the rates currently loaded */
+  latestRateDate: Date | null = null;
+  /* Set when the conversion service has refreshed rates in the background since the component was ready */
+  ratesRefreshed = false;
+
+  /* Is the history of conversions shown? */
+  historyShown = false;
+  /* A conversion to restore once rates are loaded (e.g. from a link, or after switching to its source of rates) */
+  pendingRestore: ConversionFormState | null = null;
 
   constructor(
     private conversionService: CurrencyConversionService,
-    private newRatesPrompt : MatDialog,
+    private conversionHistory: ConversionHistoryService,
+    private currencyPreferences: CurrencyPreferencesService,
+    public feeProfiles: FeeProfilesService,
     private route: ActivatedRoute,
+    private router: Router,
+    private location: Location,
+    @Inject(LOCALE_ID) private locale: string,
   ) {
+    this.rateProviders = this.conversionService.providers;
+
+    // A link to a conversion (e.g. /convert/USD/CAD/250?date=2020-03-02) is restored once its rates are loaded
+    const link = parseConversionLink(this.route.snapshot.paramMap, this.route.snapshot.queryParamMap);
+    if (link !== null) {
+      const provider = this.rateProviders.find(p => p.id === link.providerId);
+      if (provider && provider !== this.conversionService.rateProvider) {
+        this.conversionService.useProvider(provider);
+      }
+      this.pendingRestore = link;
+    }
+
     // We do this in the constructor, because ngOnInit() will be called multiple times, and we only want to allow the
     // functionality to be tested once.
     this.route.queryParams.subscribe(params => {
-      if (params['forceUpdatePrompt']) {
-        console.log("forcing rate update prompt");
-        this._forceUpdatePrompt = true;
+      if (params.forceRateRefresh) {
+        console.log('forcing rate refresh');
+        this.conversionService.requestRefresh();
       }
     });
   }
@@ -151,18 +262,29 @@ export class CurrencyConversionComponent implements OnInit {
      * Note: this function will get called:
      *
      * 1. when the component is initiated as a result of visiting its route ("/"), OR
-     * 2. when the user is prompted to refresh the conversion rates at 16:30 ET on a weekday, and they agree to do so
+     * 2. when the user switches to another source of rates
      **/
     let currencies = this.conversionService.getAll();
     this.options = currencies;
+    this.rateSourceControl.setValue(this.conversionService.rateProvider, {emitEvent: false});
     this.state = ConverterState.fetchingCurrencies;
-    this.foreignSelected = false;
-    this.foreignSelection = null;
-    this.fxCurrencyControl.reset({value: '', disabled: false});
-    this.fxAmountControl.reset({value: '', disabled: true});
-    this.cadAmountControl.reset({value: '', disabled: true});
+    this.currenciesSelected = false;
+    this.fromSelection = null;
+    // Most conversions are to the base currency (e.g. CAD), so it's selected by default
+    this.toSelection = this.conversionService.getCurrencyMetadata(this.conversionService.baseCurrency);
+    this.convertForward = true;
+    this.lastConversion = null;
+    this.conversionUnavailable = null;
+    this.fromCurrencyControl.reset({value: '', disabled: false});
+    this.toCurrencyControl.reset({value: this.toSelection, disabled: false});
+    this.fromAmountControl.reset({value: '', disabled: true});
+    this.toAmountControl.reset({value: '', disabled: true});
     this.dateControl.reset();
-    this.userSkippedRateRefresh = false;
+    this.compareDateControl.reset(null, {emitEvent: false});
+    this.lastComparison = null;
+    this.ratesRefreshed = false;
+    this.loadingError = null;
+    this.failedStage = null;
 
     /**
      * Because ngOnInit() could be called again later (see above), we will push any valueChanges subscriptions we make
@@ -170,112 +292,639 @@ export class CurrencyConversionComponent implements OnInit {
      * subscription handlers will be reacting to improperly initialized values)
      **/
 
-    /* When the foreign currency field changes, we want to catch when a valid selection has been made */
+    /**
+     * The conversion service owns the rates, and refreshes them in the background. We load them once the available
+     * currencies are known, and after that only need to react to updates.
+     */
     this.valueChangeSubscriptions.push(
-      this.fxCurrencyControl.valueChanges.subscribe(value => {
-        if (typeof value == "object") {
-          // UI should react to a valid currency being selected
-          this.foreignSelected = true;
-          // and should know which currency is selected
-          this.foreignSelection = value;
-          // initially we will always convert TO CAD first
-          this.toCAD = true;
-
-          // Select the foreign currency amount input (as a convenience to the user)
-          setTimeout(() => {this.inputFX.nativeElement.focus();}, 0);
-        } else {
-          // The user may have backspaced a valid currency name, so we will make the UI react accordingly
-          this.foreignSelected = false;
-          this.fxAmountControl.setValue('', {emitEvent: false});
-          this.fxAmountControl.disable();
-          this.cadAmountControl.setValue('', {emitEvent: false});
-          this.cadAmountControl.disable();
+      this.conversionService.ratesObs.pipe(filter(rates => rates !== null)).subscribe(rates => {
+        if (this.currentStateSubject.value === ConverterState.fetchingExchangeRates) {
+          this.loadAvailableRates(rates);
+        } else if (this.currentStateSubject.value === ConverterState.ready) {
+          this.updateAvailableRates(rates);
         }
       })
     );
 
-    /* If the date control changes, and a foreign currency is selected we should trigger a new conversion */
+    /* Switching to another source of rates means starting over, as it will have its own currencies and dates */
+    this.valueChangeSubscriptions.push(
+      this.rateSourceControl.valueChanges.subscribe((provider: RateProvider) => {
+        this.conversionService.useProvider(provider);
+        this.restart();
+        this.updateUrl();
+      })
+    );
+
+    /* When either currency field changes, we want to catch when a valid pair of currencies has been selected */
+    this.valueChangeSubscriptions.push(
+      this.fromCurrencyControl.valueChanges.subscribe(value => {
+        this.fromSelection = (value && typeof value === 'object') ? value : null;
+        if (this.fromSelection) {
+          this.currencyPreferences.useCurrency(this.fromSelection.alphaCode);
+        }
+        this.handleCurrencySelection();
+      })
+    );
+    this.valueChangeSubscriptions.push(
+      this.toCurrencyControl.valueChanges.subscribe(value => {
+        this.toSelection = (value && typeof value === 'object') ? value : null;
+        if (this.toSelection) {
+          this.currencyPreferences.useCurrency(this.toSelection.alphaCode);
+        }
+        this.handleCurrencySelection();
+      })
+    );
+
+    /**
+     * If the date control changes, and currencies are selected we should trigger a new conversion. The link is kept up to
+     * date even when there's nothing to convert (e.g. no amount has been entered yet).
+     */
     this.valueChangeSubscriptions.push(
       this.dateControl.valueChanges.subscribe(value => {
-        if (this.foreignSelected) {
+        if (this.currenciesSelected) {
           this.runConversion();
         }
+        this.updateUrl();
       })
     );
 
     // Mark the form fields as touched so that they display validation errors immediately (without waiting for at least
     // 1 blur event)
-    this.fxAmountControl.markAsTouched();
-    this.cadAmountControl.markAsTouched();
+    this.fromAmountControl.markAsTouched();
+    this.toAmountControl.markAsTouched();
+
+    /* Changing the comparison date only changes the comparison */
+    this.valueChangeSubscriptions.push(
+      this.compareDateControl.valueChanges.subscribe(value => {
+        if (this.currenciesSelected) {
+          this.runConversion();
+        } else {
+          this.lastComparison = null;
+        }
+        this.updateUrl();
+      })
+    );
+
+    /* Switching between a single date and a range of dates, or changing the range, changes the rate used */
+    this.valueChangeSubscriptions.push(
+      this.modeControl.valueChanges.subscribe(mode => {
+        if (mode === 'monthly' || mode === 'annual') {
+          this.loadAverages(mode);
+        }
+        if (mode === 'range' && !this.rangeGroup.value.start) {
+          this.setDefaultRange();
+        }
+        this.updateStatistics();
+        if (this.currenciesSelected) {
+          this.runConversion();
+        }
+        this.updateUrl();
+      })
+    );
+    this.valueChangeSubscriptions.push(
+      this.periodControl.valueChanges.subscribe(() => {
+        if (this.currenciesSelected) {
+          this.runConversion();
+        }
+        this.updateUrl();
+      })
+    );
+    this.valueChangeSubscriptions.push(
+      this.rangeGroup.valueChanges.subscribe(range => {
+        // The range picker sets the start date first, and the end date once it's chosen
+        if (range.start && range.end) {
+          this.updateStatistics();
+          if (this.currenciesSelected) {
+            this.runConversion();
+          }
+          this.updateUrl();
+        }
+      })
+    );
 
-    /* If the foreign currency amount changes, we should update the UI with the conversion */
+    /* Changing the fallback policy changes which rates are used on dates without any */
     this.valueChangeSubscriptions.push(
-      this.fxAmountControl.valueChanges.subscribe(value => {
-        if (value && this.foreignSelected && this.toCAD && this.fxAmountControl.valid) {
+      this.fallbackPolicyControl.valueChanges.subscribe(() => this.updateFallback()),
+      this.maxFallbackDaysControl.valueChanges.subscribe(() => this.updateFallback()),
+    );
+
+    // The fees are worked out from the last conversion, so there's nothing to convert again when the profile changes
+    this.valueChangeSubscriptions.push(
+      this.feeProfileControl.valueChanges.subscribe(id => this.feeProfiles.select(id)),
+      this.feeProfiles.profilesObs.subscribe(profiles => {
+        this.feeProfileControl.setValue(profiles.selected, {emitEvent: false});
+      }),
+    );
+
+    /* Changing the rounding mode only changes how the current conversion is rounded */
+    this.valueChangeSubscriptions.push(
+      this.roundingControl.valueChanges.subscribe(value => {
+        if (this.currenciesSelected) {
           this.runConversion();
-        } else if (this.toCAD && (this.fxAmountControl.invalid || !value)) {
-          this.cadAmountControl.setValue('', {emitEvent: false});
+        }
+        this.updateUrl();
+      })
+    );
+
+    /* If the "from" amount changes, we should update the UI with the conversion */
+    this.valueChangeSubscriptions.push(
+      this.fromAmountControl.valueChanges.subscribe(value => {
+        if (value && this.currenciesSelected && this.convertForward && this.fromAmountControl.valid) {
+          this.runConversion();
+        } else if (this.convertForward && (this.fromAmountControl.invalid || !value)) {
+          this.toAmountControl.setValue('', {emitEvent: false});
           this.lastConversion = null;
+          this.updateUrl();
         }
       })
     );
 
-    /* If the CAD amount changes, we should update the UI with the conversion */
+    /* If the "to" amount changes, we should update the UI with the conversion */
     this.valueChangeSubscriptions.push(
-      this.cadAmountControl.valueChanges.subscribe(value => {
-        if (value && this.foreignSelected && !this.toCAD && this.cadAmountControl.valid) {
+      this.toAmountControl.valueChanges.subscribe(value => {
+        if (value && this.currenciesSelected && !this.convertForward && this.toAmountControl.valid) {
           this.runConversion();
-        } else if (!this.toCAD && (this.cadAmountControl.invalid || !value)) {
-          this.fxAmountControl.setValue('', {emitEvent: false});
+        } else if (!this.convertForward && (this.toAmountControl.invalid || !value)) {
+          this.fromAmountControl.setValue('', {emitEvent: false});
           this.lastConversion = null;
+          this.updateUrl();
         }
       })
     );
 
-    // Start a timer to check for new rate information
-    this.rateUpdateInterval = setInterval(() => this.handleRateUpdateTimer(), this.rateUpdateTimeout)
   }
 
   ngOnDestroy() {
-    clearInterval(this.rateUpdateInterval);
-    this.rateUpdateInterval = null;
+    this.valueChangeSubscriptions.map((s) => s.unsubscribe());
+    this.valueChangeSubscriptions = [];
   }
 
   /**
-   * Figure out whether or not we should prompt the user to fetch new rates, and prompt them if we should
-   **/
-  handleRateUpdateTimer() {
-    let newRatesAvailable = this.newRatesAvailable();
-    if (newRatesAvailable && this.userSkippedRateRefresh) {
-      // Text will be shown on the component indicating that the user skipped this
-    } else if (newRatesAvailable && !this.userSkippedRateRefresh) {
-      // Prompt the user to update rates
-      this.promptRateFetch();
+   * Called whenever either currency selection changes. Once both currencies are valid the amount fields are enabled,
+   * and any amount already entered is converted with the new pair.
+   */
+  handleCurrencySelection(): void {
+    // The number of decimal places allowed in each amount depends on its currency
+    this.fromAmountControl.updateValueAndValidity({emitEvent: false});
+    this.toAmountControl.updateValueAndValidity({emitEvent: false});
+
+    if (this.fromSelection && this.toSelection) {
+      // UI should react to a valid pair of currencies being selected
+      this.currenciesSelected = true;
+      // The datepickers only offer the dates both currencies have rates for
+      if (this.conversionService.rates) {
+        this.setDateRange(this.conversionService.rates);
+        this.clampDate();
+      }
+      this.updateChart();
+      this.updateStatistics();
+
+      const amountControl = this.convertForward ? this.fromAmountControl : this.toAmountControl;
+      if (amountControl.value && amountControl.valid) {
+        this.runConversion();
+      }
+
+      // Select the active amount input (as a convenience to the user). It won't exist yet if a conversion is restored
+      // from the history before the form is shown.
+      setTimeout(() => {
+        (this.convertForward ? this.inputFrom : this.inputTo)?.nativeElement.focus();
+      }, 0);
+    } else {
+      // The user may have backspaced a valid currency name, so we will make the UI react accordingly
+      this.currenciesSelected = false;
+      if (this.conversionService.rates) {
+        this.setDateRange(this.conversionService.rates);
+      }
+      this.lastConversion = null;
+      this.conversionUnavailable = null;
+      this.chartPoints = [];
+      this.chartSelectedDate = null;
+      this.lastStatistics = null;
+      this.fromAmountControl.setValue('', {emitEvent: false});
+      this.fromAmountControl.disable();
+      this.toAmountControl.setValue('', {emitEvent: false});
+      this.toAmountControl.disable();
     }
+
+    this.updateUrl();
   }
 
   /* Run the conversion, update state to reflect the conversion result as well as metadata on the conversion rate */
   runConversion() {
-    if (this.toCAD) {
-      if (!this.fxAmountControl.value) {
+    const fromCode = this.fromSelection.alphaCode;
+    const toCode = this.toSelection.alphaCode;
+    this.conversionUnavailable = null;
+
+    if (this.modeControl.value === 'range') {
+      this.lastComparison = null;
+      this.runAverageConversion();
+      return;
+    }
+    if (this.modeControl.value === 'monthly' || this.modeControl.value === 'annual') {
+      this.lastComparison = null;
+      this.lastLookup = null;
+      this.runPeriodConversion(this.modeControl.value);
+      return;
+    }
+
+    // The fallback policy may not allow any rates for the date (e.g. a strict policy on a holiday)
+    const [rateFrom, rateTo] = this.convertForward ? [fromCode, toCode] : [toCode, fromCode];
+    const lookup = this.conversionService.rateLookup(rateFrom, rateTo, this.dateControl.value);
+    if (lookup === null) {
+      const fallback = this.conversionService.fallback;
+      const dateString = this.rateDateString(this.dateControl.value);
+      this.conversionUnavailable = `No ${rateFrom} to ${rateTo} rate ${describeFallback(dateString, fallback)}; `
+        + `fallback policy: ${fallbackPolicyLabel(fallback.policy).toLowerCase()}`;
+      this.lastConversion = null;
+      this.lastLookup = null;
+      this.lastComparison = null;
+      (this.convertForward ? this.toAmountControl : this.fromAmountControl).setValue('', {emitEvent: false});
+      this.updateUrl();
+      return;
+    }
+    this.lastLookup = lookup;
+
+    if (this.convertForward) {
+      if (!this.fromAmountControl.value || this.fromAmountControl.invalid) {
         return;
       }
-      let [cadConverted, rateDate] = this.conversionService.convert(this.fxAmountControl.value, this.foreignSelection.alphaCode, 'CAD', this.dateControl.value);
-      let [conversionRate, _] = this.conversionService.conversionRate(this.foreignSelection.alphaCode, 'CAD', this.dateControl.value);
-      this.lastConversion = [this.foreignSelection.alphaCode, 'CAD', conversionRate, rateDate];
-      this.cadAmountControl.setValue(cadConverted.toFixed(4), {emitEvent: false});
+      const fromAmount = parseAmount(this.fromAmountControl.value, this.locale);
+      const [toConverted, rateDate] = this.conversionService.convert(
+        fromAmount, fromCode, toCode, this.dateControl.value, this.roundingControl.value
+      );
+      const [rate] = this.conversionService.conversionRate(fromCode, toCode, this.dateControl.value);
+      this.lastConversion = [fromCode, toCode, rate, rateDate, lookup.legs];
+      this.chartSelectedDate = this.rateDateString(rateDate);
+      [this.fromAmount, this.toAmount] = [fromAmount, toConverted];
+      this.toAmountControl.setValue(formatAmount(toConverted, this.locale), {emitEvent: false});
+      this.lastComparison = this.compareConversion(fromAmount, fromCode, toCode, toConverted, rate);
+      this.recordConversion();
+      this.updateUrl();
     } else {
-      if (!this.cadAmountControl.value) {
+      if (!this.toAmountControl.value || this.toAmountControl.invalid) {
         return;
       }
-      let [fxConverted, rateDate] = this.conversionService.convert(this.cadAmountControl.value, 'CAD', this.foreignSelection.alphaCode, this.dateControl.value);
-      let [conversionRate, _] = this.conversionService.conversionRate('CAD', this.foreignSelection.alphaCode, this.dateControl.value);
-      this.lastConversion = ['CAD', this.foreignSelection.alphaCode, conversionRate, rateDate]
-      this.fxAmountControl.setValue(fxConverted.toFixed(4), {emitEvent: false});
+      const toAmount = parseAmount(this.toAmountControl.value, this.locale);
+      const [fromConverted, rateDate] = this.conversionService.convert(
+        toAmount, toCode, fromCode, this.dateControl.value, this.roundingControl.value
+      );
+      const [rate] = this.conversionService.conversionRate(toCode, fromCode, this.dateControl.value);
+      this.lastConversion = [toCode, fromCode, rate, rateDate, lookup.legs];
+      this.chartSelectedDate = this.rateDateString(rateDate);
+      [this.fromAmount, this.toAmount] = [fromConverted, toAmount];
+      this.fromAmountControl.setValue(formatAmount(fromConverted, this.locale), {emitEvent: false});
+      this.lastComparison = this.compareConversion(toAmount, toCode, fromCode, fromConverted, rate);
+      this.recordConversion();
+      this.updateUrl();
+    }
+  }
+
+  /* Add the last conversion to the history of conversions */
+  recordConversion(): void {
+    const [rateFrom, , , rateDate] = this.lastConversion;
+    let rate = this.lastConversion[2];
+    const fromCode = this.fromSelection.alphaCode;
+    const toCode = this.toSelection.alphaCode;
+
+    const period = this.selectedPeriod;
+
+    // The history keeps the rate for the currencies in the order they're shown in the form
+    if (rateFrom !== fromCode && period) {
+      rate = conversionRate(this.conversionService.averageConversionLegs(fromCode, toCode, period.mode, period.start));
+    } else if (rateFrom !== fromCode) {
+      [rate] = this.conversionService.conversionRate(fromCode, toCode, this.dateControl.value);
+    }
+
+    const stats = this.lastStatistics;
+    this.conversionHistory.record({
+      time: new Date().toISOString(),
+      providerId: this.conversionService.rateProvider.id,
+      fromAmount: this.fromAmount,
+      fromCode,
+      toAmount: this.toAmount,
+      toCode,
+      forward: this.convertForward,
+      rate,
+      date: this.rateDateString(this.dateControl.value),
+      rateDate: period ? period.start : this.rateDateString(rateDate),
+      range: this.modeControl.value === 'range' ? {start: stats.start, end: stats.end} : null,
+      period,
+      rounding: this.roundingControl.value,
+    });
+  }
+
+  /* Keep the address bar pointing at the current conversion, so that it can be bookmarked or shared */
+  updateUrl(): void {
+    if (!this.currenciesSelected) {
+      this.location.replaceState('/');
+      return;
+    }
+
+    const amountControl = this.convertForward ? this.fromAmountControl : this.toAmountControl;
+    const range = this.rangeGroup.value;
+    const compareDate = this.compareDateControl.value;
+    const provider = this.conversionService.rateProvider;
+
+    const link = conversionLink({
+      providerId: provider === this.rateProviders[0] ? null : provider.id,
+      fromCode: this.fromSelection.alphaCode,
+      toCode: this.toSelection.alphaCode,
+      // (a disabled control has no errors, but may still hold the amount entered)
+      amount: amountControl.value && !amountControl.errors ? parseAmount(amountControl.value, this.locale) : null,
+      forward: this.convertForward,
+      date: this.dateControl.value ? this.rateDateString(this.dateControl.value) : null,
+      compareDate: compareDate ? this.rateDateString(compareDate) : null,
+      range: this.modeControl.value === 'range' && range.start && range.end
+        ? {start: mtz(range.start).format('YYYY-MM-DD'), end: mtz(range.end).format('YYYY-MM-DD')}
+        : null,
+      period: this.selectedPeriod,
+      rounding: this.roundingControl.value,
+    });
+    this.location.replaceState(
+      this.router.serializeUrl(this.router.createUrlTree(link.commands, {queryParams: link.queryParams}))
+    );
+  }
+
+  /* Put a conversion from the history back into the form */
+  restoreConversion(entry: ConversionHistoryEntry): void {
+    this.restoreForm({
+      providerId: entry.providerId,
+      fromCode: entry.fromCode,
+      toCode: entry.toCode,
+      amount: entry.forward ? entry.fromAmount : entry.toAmount,
+      forward: entry.forward,
+      date: entry.date,
+      compareDate: null,
+      range: entry.range,
+      period: entry.period ?? null,
+      rounding: entry.rounding,
+    });
+  }
+
+  /**
+   * Put a conversion back into the form (e.g. from the history, or a link). If it used another source of rates, we
+   * switch to that source first, and restore the conversion once its rates are loaded.
+   */
+  restoreForm(form: ConversionFormState): void {
+    if (form.providerId && form.providerId !== this.conversionService.rateProvider.id) {
+      const provider = this.rateProviders.find(p => p.id === form.providerId);
+      if (provider) {
+        this.pendingRestore = form;
+        this.rateSourceControl.setValue(provider);
+      }
+      return;
+    }
+
+    if (this.currentStateSubject.value !== ConverterState.ready) {
+      this.pendingRestore = form;
+      return;
+    }
+
+    const from = this.options.find(currency => currency.alphaCode === form.fromCode);
+    const to = this.options.find(currency => currency.alphaCode === form.toCode);
+    if (!from || !to) {
+      // The source of rates doesn't have one of the currencies
+      return;
+    }
+
+    const timeZone = this.conversionService.rates.timeZone;
+    this.roundingControl.setValue(form.rounding, {emitEvent: false});
+    if (form.date) {
+      this.dateControl.setValue(mtz.tz(form.date + 'T00:00:00', timeZone).toDate(), {emitEvent: false});
+    }
+    this.compareDateControl.setValue(
+      form.compareDate ? mtz.tz(form.compareDate + 'T00:00:00', timeZone).toDate() : null, {emitEvent: false}
+    );
+    // Official averages are only restored if the source of rates publishes them
+    const period = this.publishesAverages ? form.period : null;
+    this.modeControl.setValue(period ? period.mode : form.range ? 'range' : 'date', {emitEvent: false});
+    if (period) {
+      // The period picker works with dates at midnight local time
+      this.periodControl.setValue(mtz(period.start).toDate(), {emitEvent: false});
+    }
+    if (form.range) {
+      // The range picker works with dates at midnight local time
+      this.rangeGroup.setValue({
+        start: mtz(form.range.start).toDate(),
+        end: mtz(form.range.end).toDate(),
+      }, {emitEvent: false});
+    }
+
+    // Put the amount that was entered back, and convert it again
+    this.convertForward = form.forward;
+    const [entered, other] = form.forward
+      ? [this.fromAmountControl, this.toAmountControl]
+      : [this.toAmountControl, this.fromAmountControl];
+    entered.enable({emitEvent: false});
+    other.disable({emitEvent: false});
+    entered.setValue(form.amount !== null ? formatAmount(form.amount, this.locale) : '', {emitEvent: false});
+    other.setValue('', {emitEvent: false});
+
+    this.fromSelection = from;
+    this.toSelection = to;
+    this.fromCurrencyControl.setValue(from, {emitEvent: false});
+    this.toCurrencyControl.setValue(to, {emitEvent: false});
+    if (period) {
+      this.loadAverages(period.mode);
+    }
+    this.handleCurrencySelection();
+  }
+
+  /**
+   * Run a conversion again on the comparison date (if one is selected), and work out how much it changed. Like the
+   * conversion date, if there's no rate on the comparison date the fallback policy decides which rates are used.
+   */
+  compareConversion(amount: string, from: string, to: string, converted: string, rate: string)
+      : [string, string, Date, string, string] | null {
+    const compareDate = this.compareDateControl.value;
+    if (!compareDate) {
+      return null;
+    }
+
+    const conversion = this.conversionService.convert(amount, from, to, compareDate, this.roundingControl.value);
+    const comparedRate = this.conversionService.conversionRate(from, to, compareDate);
+    if (conversion === null || comparedRate === null) {
+      return null;
+    }
+
+    const [comparedAmount, comparedDate] = conversion;
+    return [comparedAmount, comparedRate[0], comparedDate, difference(converted, comparedAmount), percentChange(rate, comparedRate[0])];
+  }
+
+  /**
+   * Run the conversion at the average rate over the selected range of dates. Whichever direction the conversion runs
+   * in, the average is of the rate from the "from" currency to the "to" currency, so both directions agree.
+   */
+  runAverageConversion(): void {
+    const fromCode = this.fromSelection.alphaCode;
+    const toCode = this.toSelection.alphaCode;
+    const stats = this.lastStatistics;
+    const amountControl = this.convertForward ? this.fromAmountControl : this.toAmountControl;
+
+    if (!amountControl.value || amountControl.invalid) {
+      return;
+    }
+    if (stats === null) {
+      // There are no rates in the range to convert with
+      this.lastConversion = null;
+      (this.convertForward ? this.toAmountControl : this.fromAmountControl).setValue('', {emitEvent: false});
+      this.updateUrl();
+      return;
+    }
+
+    const rounding = this.roundingControl.value;
+    const endDate = mtz.tz(stats.end + 'T00:00:00', this.conversionService.rates.timeZone).toDate();
+    this.lastConversion = [fromCode, toCode, stats.mean, endDate, []];
+    this.chartSelectedDate = null;
+
+    if (this.convertForward) {
+      const fromAmount = parseAmount(this.fromAmountControl.value, this.locale);
+      const toConverted = this.conversionService.convertAtRate(fromAmount, stats.mean, toCode, false, rounding);
+      [this.fromAmount, this.toAmount] = [fromAmount, toConverted];
+      this.toAmountControl.setValue(formatAmount(toConverted, this.locale), {emitEvent: false});
+    } else {
+      const toAmount = parseAmount(this.toAmountControl.value, this.locale);
+      const fromConverted = this.conversionService.convertAtRate(toAmount, stats.mean, fromCode, true, rounding);
+      [this.fromAmount, this.toAmount] = [fromConverted, toAmount];
+      this.fromAmountControl.setValue(formatAmount(fromConverted, this.locale), {emitEvent: false});
+    }
+    this.recordConversion();
+    this.updateUrl();
+  }
+
+  /**
+   * Run the conversion at the provider's official average rate for the selected month or year. The averages are
+   * published against the base currency, so a cross rate is triangulated from each currency's average.
+   */
+  runPeriodConversion(period: RatePeriod): void {
+    const fromCode = this.fromSelection.alphaCode;
+    const toCode = this.toSelection.alphaCode;
+    const amountControl = this.convertForward ? this.fromAmountControl : this.toAmountControl;
+    const otherControl = this.convertForward ? this.toAmountControl : this.fromAmountControl;
+
+    if (!amountControl.value || amountControl.invalid || !this.periodControl.value) {
+      return;
+    }
+
+    const [rateFrom, rateTo] = this.convertForward ? [fromCode, toCode] : [toCode, fromCode];
+    const start = this.periodStart(this.periodControl.value, period);
+    const legs = this.conversionService.averageConversionLegs(rateFrom, rateTo, period, start);
+    if (legs === null) {
+      // The averages may still be loading, or not cover the period
+      this.lastConversion = null;
+      if (!this.loadingAverages) {
+        const label = mtz(start).format(period === 'annual' ? 'YYYY' : 'MMMM YYYY');
+        this.conversionUnavailable = `No ${period} average ${rateFrom} to ${rateTo} rate for ${label}`;
+      }
+      otherControl.setValue('', {emitEvent: false});
+      return;
     }
+
+    const amount = parseAmount(amountControl.value, this.locale);
+    const converted = convertAmount(amount, legs, this.conversionService.decimalPlaces(rateTo), this.roundingControl.value);
+    this.lastConversion = [rateFrom, rateTo, conversionRate(legs), this.periodControl.value, legs];
+    this.chartSelectedDate = null;
+    [this.fromAmount, this.toAmount] = this.convertForward ? [amount, converted] : [converted, amount];
+    otherControl.setValue(formatAmount(converted, this.locale), {emitEvent: false});
+    this.recordConversion();
+    this.updateUrl();
+  }
+
+  /* The first day (YYYY-MM-DD) of the month or year a date is in */
+  periodStart(date: Date, period: RatePeriod): string {
+    return mtz(date).format(period === 'annual' ? 'YYYY-01-01' : 'YYYY-MM-01');
+  }
+
+  /* The month or year of the official average conversions use, when they use one */
+  get selectedPeriod(): {mode: RatePeriod, start: string} | null {
+    const mode = this.modeControl.value;
+    if ((mode !== 'monthly' && mode !== 'annual') || !this.periodControl.value) {
+      return null;
+    }
+    return {mode, start: this.periodStart(this.periodControl.value, mode)};
+  }
+
+  /* Whether the current rate provider publishes official monthly and annual averages */
+  get publishesAverages(): boolean {
+    return this.conversionService.publishesAverages;
   }
 
-  /* Filters out remaining valid currencies based on user input so far (foreign currency selection field) */
+  /* Fetch the provider's official averages for a period (they're only fetched once), then convert with them */
+  loadAverages(period: RatePeriod): void {
+    this.averagesError = null;
+    this.loadingAverages = true;
+
+    this.conversionService.getAverageRates(period).subscribe({
+      next: (rates) => {
+        this.loadingAverages = false;
+        const observations = rates.observations;
+        this.minPeriod = mtz(observations[0].date).toDate();
+        this.maxPeriod = mtz(observations[observations.length - 1].date).toDate();
+
+        // Keep the selected period if there's an average for it, or start from the latest one
+        let selected = this.periodControl.value ? mtz(this.periodStart(this.periodControl.value, period)).toDate() : null;
+        if (selected === null || selected < this.minPeriod || selected > this.maxPeriod) {
+          selected = this.maxPeriod;
+        }
+        this.periodControl.setValue(selected, {emitEvent: false});
+
+        if (this.modeControl.value === period && this.currenciesSelected) {
+          this.runConversion();
+        }
+      },
+      error: (error) => {
+        this.loadingAverages = false;
+        this.averagesError = describeLoadingError(error, period, this.conversionService.rateProvider.name).message;
+      },
+    });
+  }
+
+  /* Work out statistics for the rate between the selected currencies over the selected range of dates */
+  updateStatistics(): void {
+    const range = this.rangeGroup.value;
+
+    if (this.modeControl.value !== 'range' || !this.fromSelection || !this.toSelection || !range.start || !range.end) {
+      this.lastStatistics = null;
+      return;
+    }
+
+    // The range picker gives the dates picked at midnight local time
+    this.lastStatistics = this.conversionService.conversionRateStatistics(
+      this.fromSelection.alphaCode,
+      this.toSelection.alphaCode,
+      mtz(range.start).format('YYYY-MM-DD'),
+      mtz(range.end).format('YYYY-MM-DD'),
+    );
+  }
+
+  /* Month-end reporting is the most common use of average rates, so the range defaults to the last full month */
+  setDefaultRange(): void {
+    const latest = mtz.tz(this.latestRateDate, this.conversionService.rates.timeZone);
+    const lastMonth = latest.clone().subtract(1, 'month');
+    this.rangeGroup.setValue({
+      start: new Date(lastMonth.year(), lastMonth.month(), 1),
+      end: new Date(lastMonth.year(), lastMonth.month(), lastMonth.daysInMonth()),
+    }, {emitEvent: false});
+  }
+
+  /* Format for displaying amounts of a currency with the `currency` pipe, with as many decimal places as its minor unit */
+  currencyDigits(currency: CurrencyMetadata): string {
+    const places = this.conversionService.decimalPlaces(currency.alphaCode);
+    return `1.${places}-${places}`;
+  }
+
+  /* The date of a rate (YYYY-MM-DD) in the rate provider's time zone */
+  rateDateString(date: Date): string {
+    return date.toLocaleDateString('en-CA', {timeZone: this.conversionService.rates.timeZone});
+  }
+
+  /* Explains what's wrong with the amount in an amount control */
+  amountError(control: FormControl): string {
+    const errors = control.errors ?? {};
+    return (errors.invalidAmount ?? errors.tooManyDecimalPlaces)?.message ?? '';
+  }
+
+  /* Filters out remaining valid currencies based on user input so far (either currency selection field) */
   private _filterRemainingValid(value: string): CurrencyMetadata[] {
     if (!value || typeof value !== "string") {
       /* All options are valid if the field is empty, or if it has finally returned an object */
@@ -288,43 +937,66 @@ export class CurrencyConversionComponent implements OnInit {
     );
   }
 
-  /* Conversion direction is switching to FX -> CAD */
-  switchFXToCAD() {
-    if (this.foreignSelected){
-      // If conversion direction was already -> CAD, we won't auto-select the amount field
-      let switching = this.toCAD ? false : true;
+  isFavorite(currency: CurrencyMetadata): boolean {
+    return this.currencyPreferences.isFavorite(currency.alphaCode);
+  }
+
+  /* Handler for the star on a currency option, which pins the currency to the top of the options (or unpins it) */
+  toggleFavorite(event: Event, currency: CurrencyMetadata): void {
+    // The star is inside the option, so the click mustn't select the option too
+    event.stopPropagation();
+    this.currencyPreferences.toggleFavorite(currency.alphaCode);
+  }
+
+  /* Show the history of the rate between the selected currencies on the chart */
+  updateChart(): void {
+    this.chartPoints = this.conversionService.conversionRateHistory(this.fromSelection.alphaCode, this.toSelection.alphaCode);
+  }
 
-      this.toCAD = true;
+  /* Handler for a point clicked on the chart, which converts using the rate from that date */
+  selectChartDate(date: string): void {
+    this.dateControl.setValue(mtz.tz(date + 'T00:00:00', this.conversionService.rates.timeZone).toDate());
+  }
+
+  /* Conversion direction is switching to "from" -> "to" */
+  switchToForward(): void {
+    if (this.currenciesSelected){
+      // If conversion direction was already forward, we won't auto-select the amount field
+      const switching = this.convertForward ? false : true;
+
+      this.convertForward = true;
+      this.updateUrl();
       setTimeout(() => {
-        this.fxAmountControl.enable();
-        this.cadAmountControl.disable();
+        this.fromAmountControl.enable();
+        this.toAmountControl.disable();
 
         // Always focus the element
-        this.inputFX.nativeElement.focus();
+        this.inputFrom.nativeElement.focus();
         if (switching){
           // Highlight the content if the conversion direction changes, the user likely wants to try a new value
-          this.inputFX.nativeElement.select();
+          this.inputFrom.nativeElement.select();
         }
       }, 0);
     }
   }
 
-  /* Conversion direction is switching to CAD -> FX */
-  switchCADToFX() {
-    if (this.foreignSelected) {
-      // If conversion direction was already -> FX, we won't auto-select the amount field
-      let switching = !this.toCAD ? false : true;
+  /* Conversion direction is switching to "to" -> "from" */
+  switchToReverse(): void {
+    if (this.currenciesSelected) {
+      // If conversion direction was already reversed, we won't auto-select the amount field
+      const switching = !this.convertForward ? false : true;
 
-      this.toCAD = false;
+      this.convertForward = false;
+      this.updateUrl();
       setTimeout(() => {
-        this.fxAmountControl.disable();
-        this.cadAmountControl.enable();
+        this.fromAmountControl.disable();
+        this.toAmountControl.enable();
 
         // Always focus the element
-        this.inputCAD.nativeElement.focus();
+        this.inputTo.nativeElement.focus();
         if (switching) {
           // Highlight the content if the conversion direction changes, the user likely wants to try a new value
-          this.inputCAD.nativeElement.select();
+          this.inputTo.nativeElement.select();
         }
       }, 0);
     }
@@ -345,189 +1017,327 @@ export class CurrencyConversionComponent implements OnInit {
   /* Handler for subscription to currency conversion service (currency codes) */
   loadAvailableConversions(codes: string[]) {
     this.options = this.options.filter(currency => {
-      return codes.some(code => code == currency.alphaCode);
+      return codes.some(code => code === currency.alphaCode);
     })
 
     /**
-     * When the foreign currency field changes, it will pick up remaining valid options from this Observable
+     * When a currency field changes, it will pick up remaining valid options from these Observables
      *
-     * We set this observable after getting valid currency codes so that we know the filtering function will have access
-     * to dynamically obtained values, and not the set of defaults loaded from a static file which the
+     * We set these observables after getting valid currency codes so that we know the filtering function will have
+     * access to dynamically obtained values, and not the set of defaults loaded from a static file which the
      * `CurrencyConversionService` provides.
      **/
-    this.filteredOptions = this.fxCurrencyControl.valueChanges
-      .pipe(
-        startWith(''),
-        map(value => this._filterRemainingValid(value))
-      );
+    this.filteredFromOptions = combineLatest([
+      this.fromCurrencyControl.valueChanges.pipe(startWith('')),
+      this.currencyPreferences.preferencesObs,
+    ]).pipe(
+      map(([value, preferences]) => groupCurrencyOptions(this._filterRemainingValid(value), preferences))
+    );
+    this.filteredToOptions = combineLatest([
+      this.toCurrencyControl.valueChanges.pipe(startWith('')),
+      this.currencyPreferences.preferencesObs,
+    ]).pipe(
+      map(([value, preferences]) => groupCurrencyOptions(this._filterRemainingValid(value), preferences))
+    );
 
     this.state = ConverterState.fetchingExchangeRates;
   }
 
-  /* Handler for subscription to currency conversion service (historical conversion rates) */
-  loadAvailableRates(rates) {
-    // The listing lets us figure out the acceptable range of conversion dates
-    let rangeStart = rates['observations'][0]['d'];
-    let rangeEnd = rates['observations'][rates['observations'].length - 1]['d'];
-
-    let dateStart = mtz.tz(rangeStart + "T00:00:00", 'America/Toronto').toDate();
-    let dateEnd = mtz.tz(rangeEnd + "T00:00:00", 'America/Toronto').toDate();
-
-    this.minDate = dateStart;
-    this.maxDate = mtz.utc().tz('America/Toronto').startOf('day').toDate();
-
-    // We store valid conversion dates, but as noted in the template, it's impossible to use this class variable in a
-    // dynamic filtering function for the datepicker. (you can re-bind `this` to be the component class when setting
-    // up the filtering callback, but then the datepicker stops working...). Instead, the user can select any date from
-    // minDate to maxDate. If Angular Material ever gets patched, this information could make the datepicker more
-    // user-friendly and intuitive.
-    this.validConversionDates = this.conversionService.getValidConversionDates();
-
+  /* Handler for the first rates delivered by the conversion service's rate store */
+  loadAvailableRates(rates: RateHistory): void {
+    this.setDateRange(rates);
     this.dateControl.setValue(this.maxDate);
 
-    // Some of the conversion data from BoC has certain rates for only part of the full time range. We will filter out
-    // conversions that aren't available across the entire range of observations
-    this.options = this.options.filter((currency : CurrencyMetadata) => {
-      let alphaCode = currency.alphaCode;
-      return rates['observations'].every((convDate) => {
-        let desiredKey = `FX${alphaCode}CAD`;
-        return Object.keys(convDate).some(convKey => convKey == desiredKey);
-      });
-    });
+    // Some of the conversion data has certain rates for only part of the full time range. Those currencies are kept
+    // (the datepickers narrow to their range once they're selected), but currencies without any rates are left out
+    const available = this.options.filter(currency => this.availability.has(currency.alphaCode));
 
-    // Keep track of when we last fetched rates, as BoC will publish new rates at 16:30 ET on weekdays, and we want to
-    // be able to prompt the user to fetch the new rates.
-    this.easternTimeLastRateFetch = mtz.utc().tz('America/Toronto').toDate();
+    // If that leaves nothing to convert, the provider didn't send what it said it had
+    if (!available.some(currency => currency.alphaCode !== rates.base)) {
+      const listed = this.options.filter(currency => currency.alphaCode !== rates.base).length;
+      this.handleLoadingError(
+        new PartialRateDataError(`none of the ${listed} listed currencies had any rates`),
+        ConverterState.fetchingExchangeRates,
+      );
+      return;
+    }
+    this.options = available;
 
     this.state = ConverterState.ready;
+
+    if (this.pendingRestore !== null) {
+      const form = this.pendingRestore;
+      this.pendingRestore = null;
+      this.restoreForm(form);
+    }
   }
 
   /**
-   * If the component decides that there are new rates to be fetched, call this function to prompt the user
+   * Handler for rates refreshed in the background by the conversion service (the rate store only emits when there are
+   * new observations). Only the range of the datepicker needs to change, and the current conversion is re-run in case
+   * its rate changed.
    **/
-  promptRateFetch() {
-    const dialogRef = this.newRatesPrompt.open(DialogPromptRateCheck, {
-      maxWidth: null,
-      width: 'calc(min(100%, 64rem))',
-      position: { top: "16.2vh"},
-      disableClose: true
-    });
-
-    dialogRef.afterClosed().subscribe(fetchRates => {
-      // If the user agreed to fetch the new rates, we'll reset the component to kick that process off
-      if (fetchRates) {
-        // We're calling ngOnInit() again, so make sure the old subscriptions to form changes are cleaned up
-        this.valueChangeSubscriptions.map((s) => s.unsubscribe());
-        this.valueChangeSubscriptions = [];
-
-        // these @ViewChild() elements won't be accessible during ngOnInit(), and if we don't blur these form fields
-        // before everything is reset, Angular Material's CSS makes the last selected currency amount field appear
-        // focused.
-        this.inputFX.nativeElement.blur();
-        this.inputCAD.nativeElement.blur();
-
-        // Stop the rate update timer, it will be restarted on initialization
-        clearInterval(this.rateUpdateInterval);
-        this.rateUpdateInterval = null;
-
-        if (this._forceUpdatePrompt) {
-          console.debug("unsetting forceUpdatePrompt");
-          this._forceUpdatePrompt = false;
-        }
+  updateAvailableRates(rates: RateHistory): void {
+    this.setDateRange(rates);
+    this.ratesRefreshed = true;
+
+    if (this.currenciesSelected) {
+      this.updateChart();
+      this.updateStatistics();
+      this.runConversion();
+    }
+  }
 
-        // Re-run the component from the beginning, which will go and fetch the newest conversion rates
-        this.ngOnInit();
-      } else {
-        // remember this so we don't prompt them again
-        this.userSkippedRateRefresh = true;
+  /**
+   * Use the listing of rates to figure out the acceptable range of conversion dates. Once both currencies are selected,
+   * the range is narrowed to the dates they both have rates for.
+   */
+  setDateRange(rates: RateHistory): void {
+    const codes = this.currenciesSelected ? [this.fromSelection.alphaCode, this.toSelection.alphaCode] : [];
+    this.availability = this.conversionService.rateAvailability(this.options.map(currency => currency.alphaCode), rates);
+
+    const lastObservation = rates.observations[rates.observations.length - 1].date;
+    let rangeStart = rates.observations[0].date;
+    let rangeEnd = lastObservation;
+    for (const code of codes) {
+      const range = this.availability.get(code);
+      if (range) {
+        rangeStart = range.start > rangeStart ? range.start : rangeStart;
+        rangeEnd = range.end < rangeEnd ? range.end : rangeEnd;
       }
-    })
+    }
+
+    const dateStart = mtz.tz(rangeStart + 'T00:00:00', rates.timeZone).toDate();
+    const dateEnd = mtz.tz(rangeEnd + 'T00:00:00', rates.timeZone).toDate();
+
+    this.minDate = dateStart;
+    // A series that's still published can be converted up to today (with the latest rates), but one that has ended
+    // stops at its last rate
+    this.maxDate = rangeEnd === lastObservation ? mtz.utc().tz(rates.timeZone).startOf('day').toDate() : dateEnd;
+    this.latestRateDate = dateEnd;
+
+    // The datepickers grey out dates without rates (see publicationDateFilter())
+    this.validConversionDates = this.conversionService.getValidConversionDates(codes) ?? [];
+    this.validDateStrings = new Set(this.validConversionDates.map((date) => this.rateDateString(date)));
+  }
+
+  /* Moves the selected date into the range of dates the selected currencies have rates for */
+  clampDate(): void {
+    const date = this.dateControl.value;
+    if (date && date < this.minDate) {
+      this.dateControl.setValue(this.minDate, {emitEvent: false});
+    } else if (date && date > this.maxDate) {
+      this.dateControl.setValue(this.maxDate, {emitEvent: false});
+    }
+  }
+
+  /* The range of dates a currency has rates for, when it doesn't have rates for every date */
+  partialAvailability(currency: CurrencyMetadata): RateAvailability | null {
+    const range = this.availability.get(currency.alphaCode);
+    const full = this.availability.get(this.conversionService.rates?.base);
+    if (!range || !full || (range.start === full.start && range.end === full.end)) {
+      return null;
+    }
+    return range;
   }
 
   /**
-   * returns true if it's a weekday, and the user can fetch the latest conversion rates. The user can fetch the latest
-   * conversion rates if:
-   *
-   * 1. They started using the app before 16:30 ET, AND
-   * 2. It is now equal to or after 16:30 ET on the day that they started using the app
-   *
-   * The parameters `now` and `startedAt` are used for testing. When not provided, the function will use component
-   * variables to work out whether or not it's time to re-fetch conversion rates.
-   **/
-  newRatesAvailable(now?: Date | null, startedAt?: Date) {
-    if(this._forceUpdatePrompt) {
+   * Filter for the datepickers, which greys out weekends, holidays and other dates without published rates. Dates after
+   * the latest rates stay selectable, since they use the latest rates until newer ones are published. This is an arrow
+   * function so that `this` is still the component when the datepicker calls it.
+   */
+  publicationDateFilter = (date: Date | null): boolean => {
+    if (date == null || this.latestRateDate == null) {
       return true;
     }
+    const day = this.rateDateString(date);
+    return this.validDateStrings.has(day)
+      || (day > this.rateDateString(this.latestRateDate) && day <= this.rateDateString(this.maxDate));
+  }
+
+  /* Highlights the date whose rates were used instead of the selected date in the datepicker's calendar */
+  publicationDateClass = (date: Date): string => {
+    return this.fallbackFrom != null && this.rateDateString(date) === this.rateDateString(this.lastConversion[3])
+      ? 'fallbackRateDate'
+      : '';
+  }
+
+  /* The selected date (YYYY-MM-DD) when it had no rates, and the last conversion used rates from another date */
+  get fallbackFrom(): string | null {
+    if (this.lastConversion == null || this.modeControl.value !== 'date' || !this.dateControl.value) {
+      return null;
+    }
+    const selected = this.rateDateString(this.dateControl.value);
+    return selected !== this.rateDateString(this.lastConversion[3]) ? selected : null;
+  }
+
+  /* Explains where the last conversion's rates came from, when none were published on the selected date */
+  get fallbackNote(): string | null {
+    const lookup = this.lastLookup;
+    if (lookup == null || this.lastConversion == null || this.modeControl.value !== 'date' || !this.dateControl.value) {
+      return null;
+    }
 
-    let nowEasternTime = now ? mtz(now) : mtz.utc().tz('America/Toronto');
-    let lastFetch = startedAt ? mtz(startedAt) : mtz(this.easternTimeLastRateFetch);
+    const selected = this.rateDateString(this.dateControl.value);
+    if (lookup.sources.length === 2) {
+      return `interpolated between ${lookup.sources[0]} and ${lookup.sources[1]}, as none were published on ${selected}`;
+    }
+    if (this.fallbackFrom == null) {
+      return null;
+    }
 
-    let nowEasternWeekday = nowEasternTime.isoWeekday()
-    let isWeekday = nowEasternWeekday >= 1 && nowEasternWeekday <= 5;
+    const publication = lookup.policy === FallbackPolicy.nearest ? 'nearest'
+      : lookup.sources[0] < selected ? 'previous' : 'next';
+    const note = `using the ${publication} publication, as none were published on ${selected}`;
+    // Interpolation needs rates either side of the date
+    return lookup.policy === FallbackPolicy.interpolate ? `${note} (nothing to interpolate with)` : note;
+  }
 
-    if (isWeekday) {
-      let checkRatesAfter = mtz(lastFetch).startOf('day')
-        .hour(this.fetchRatesAfterHour)
-        .minute(this.fetchRatesAfterMinute);
+  /* The selected fee profile, if any */
+  get feeProfile(): FeeProfile | null {
+    return this.feeProfiles.selected;
+  }
 
-      if (lastFetch.isBefore(checkRatesAfter) && nowEasternTime.isSameOrAfter(checkRatesAfter)) {
-        // We will offer to fetch rates if it's after 16:30 ET on the last day that rates were fetched
-        return true;
-      }
+  /**
+   * What the last conversion costs with the selected fee profile: the fees are taken off the amount paid, so a "from"
+   * amount buys less, and a "to" amount costs more than at the mid-market rate
+   */
+  get feeBreakdown(): FeeBreakdown | null {
+    const profile = this.feeProfile;
+    if (profile == null || this.lastConversion == null || this.fromAmount == null || this.toAmount == null) {
+      return null;
     }
 
-    return false;
+    // The mid-market rate for 1 unit of the "from" currency, whichever way the conversion was made
+    const [rateFrom, rateTo] = this.lastConversion;
+    let rate = this.lastConversion[2];
+    if (rateFrom !== this.fromSelection.alphaCode) {
+      rate = conversionRate([{from: rateTo, to: rateFrom, rate, published: rate, inverse: true}]);
+    }
+
+    const fromPlaces = this.conversionService.decimalPlaces(this.fromSelection.alphaCode);
+    const toPlaces = this.conversionService.decimalPlaces(this.toSelection.alphaCode);
+    const rounding = this.roundingControl.value;
+    return this.convertForward
+      ? feesOnAmountPaid(this.fromAmount, rate, profile, fromPlaces, toPlaces, rounding)
+      : feesOnAmountReceived(this.toAmount, rate, profile, fromPlaces, toPlaces, rounding);
+  }
+
+  /* Apply the selected fallback policy to every conversion, and convert again with it */
+  updateFallback(): void {
+    if (this.maxFallbackDaysControl.invalid) {
+      return;
+    }
+    this.conversionService.fallback = {
+      policy: this.fallbackPolicyControl.value,
+      maxDays: Number(this.maxFallbackDaysControl.value),
+    };
+    if (this.currenciesSelected) {
+      this.runConversion();
+    }
+  }
+
+  /**
+   * Keyboard shortcuts for the date field: Page Up selects the previous date with published rates, and Page Down the
+   * next one (the calendar uses the same keys to move back and forward a month).
+   */
+  handleDateKeydown(event: KeyboardEvent): void {
+    const direction = event.key === 'PageUp' ? -1 : event.key === 'PageDown' ? 1 : 0;
+    if (direction !== 0) {
+      event.preventDefault();
+      this.stepPublicationDate(direction);
+    }
+  }
+
+  /* Selects the date with published rates before (-1) or after (1) the selected date, if there is one */
+  stepPublicationDate(direction: number): void {
+    const selected = this.dateControl.value ? this.rateDateString(this.dateControl.value) : null;
+    const dates = direction < 0 ? [...this.validConversionDates].reverse() : this.validConversionDates;
+    const target = dates.find((date) => {
+      const day = this.rateDateString(date);
+      return selected == null || (direction < 0 ? day < selected : day > selected);
+    });
+    if (target) {
+      this.dateControl.setValue(target);
+    }
+  }
+
+  /**
+   * Re-run the component from the beginning, which will go and fetch the currencies and conversion rates from the
+   * current rate provider.
+   */
+  restart(): void {
+    // We're calling ngOnInit() again, so make sure the old subscriptions to form changes are cleaned up
+    this.valueChangeSubscriptions.map((s) => s.unsubscribe());
+    this.valueChangeSubscriptions = [];
+
+    // these @ViewChild() elements won't be accessible during ngOnInit(), and if we don't blur these form fields
+    // before everything is reset, Angular Material's CSS makes the last selected currency amount field appear
+    // focused. (They won't exist at all if the form wasn't shown, e.g. after a loading error)
+    this.inputFrom?.nativeElement.blur();
+    this.inputTo?.nativeElement.blur();
+
+    // The new provider may not publish official averages
+    if (this.modeControl.value === 'monthly' || this.modeControl.value === 'annual') {
+      this.modeControl.setValue('date', {emitEvent: false});
+    }
+
+    this.ngOnInit();
+  }
+
+  /* Handler for errors while fetching currencies or rates. Logs the error with a timestamp, and shows why it failed */
+  handleLoadingError(error: any, stage: ConverterState): void {
+    this.loadingError = describeLoadingError(error, stage, this.conversionService.rateProvider.name);
+    this.failedStage = stage;
+
+    const logLine = formatLoadingError(this.loadingError);
+    this.loadingErrorLog.push(logLine);
+    console.error(logLine, error);
+
+    this.state = ConverterState.loadingError;
+  }
+
+  /* Try the stage that failed again, keeping everything loaded before it */
+  retry(): void {
+    if (this.failedStage !== null) {
+      const stage = this.failedStage;
+      this.loadingError = null;
+      this.failedStage = null;
+      this.state = stage;
+    }
   }
 
   /* when this.state changes, perform an appropriate action (loading screen) */
   set state(s: ConverterState) {
+    // Publish the new state first, as the actions below can synchronously move on to another state
+    this.currentStateSubject.next(s.toString());
+
     /* initiate actions related to state change */
     switch(s) {
       case ConverterState.fetchingCurrencies:
         this.conversionService.getAvailableConversions().subscribe({
           next: conversions => this.loadAvailableConversions(conversions),
-          error: error => this.state = ConverterState.loadingError,
+          error: error => this.handleLoadingError(error, ConverterState.fetchingCurrencies),
         });
         break;
       case ConverterState.fetchingExchangeRates:
+        // Rates are delivered through the conversion service's rate store (see ngOnInit()), which only emits them if
+        // they're new, so rates already loaded by another page are picked up here
         this.conversionService.getConversionRates().subscribe({
-          next: rates => this.loadAvailableRates(rates),
-          error: error => this.state = ConverterState.loadingError,
+          next: rates => {
+            if (this.currentStateSubject.value === ConverterState.fetchingExchangeRates) {
+              this.loadAvailableRates(rates);
+            }
+          },
+          error: error => this.handleLoadingError(error, ConverterState.fetchingExchangeRates),
         });
         break;
       case ConverterState.ready:
         console.log("converter is ready");
         break;
       case ConverterState.loadingError:
-        console.error("failed to load data from Bank of Canada");
+        console.error(`failed to load data from ${this.conversionService.rateProvider.name}`, this.loadingError);
         break;
     }
-
-    this.currentStateSubject.next(s.toString());
-  }
-
-  /**
-   * When the user makes a foreign currency selection, amount controls need to be enabled/disabled according to whether
-   * or not a selection is made.
-   **/
-  set foreignSelected(selected: boolean) {
-    if (selected) {
-      setTimeout(() => {
-        if (this.toCAD) {
-          this.fxAmountControl.enable();
-        } else {
-          this.cadAmountControl.enable();
-        }
-      }, 0);
-    } else {
-      setTimeout(() => {
-        this.fxAmountControl.disable();
-        this.cadAmountControl.disable();
-      }, 0);
-    }
-    this._foreignSelected = selected;
-  }
-  get foreignSelected() {
-    return this._foreignSelected;
   }
 }
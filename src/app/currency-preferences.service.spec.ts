@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+
+import { CurrencyPreferencesService, groupCurrencyOptions } from './currency-preferences.service';
+
+import { CurrencyMetadata } from './currency-info.data';
+
+describe('CurrencyPreferencesService', () => {
+  let service: CurrencyPreferencesService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(CurrencyPreferencesService);
+    service.clear();
+  });
+
+  afterEach(() => {
+    service.clear();
+  });
+
+  it('should pin and unpin favorites, and keep them across sessions', () => {
+    service.toggleFavorite('USD');
+    service.toggleFavorite('EUR');
+    service.toggleFavorite('JPY');
+    service.toggleFavorite('EUR');
+
+    expect(service.preferences.favorites).toEqual(['USD', 'JPY']);
+    expect(new CurrencyPreferencesService().preferences.favorites).toEqual(['USD', 'JPY']);
+  });
+
+  it('should keep the most recently used currencies first', () => {
+    for (const code of ['USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CHF', 'EUR']) {
+      service.useCurrency(code);
+    }
+
+    expect(service.preferences.recent).toEqual(['EUR', 'CHF', 'AUD', 'JPY', 'GBP']);
+  });
+});
+
+describe('groupCurrencyOptions', () => {
+  const currency = (alphaCode: string) => ({alphaCode, fullName: alphaCode} as CurrencyMetadata);
+  const options = ['AUD', 'CAD', 'EUR', 'JPY', 'USD'].map(currency);
+
+  it('should list favorites, then recently used currencies, then the rest', () => {
+    const groups = groupCurrencyOptions(options, {favorites: ['USD', 'XAU'], recent: ['JPY', 'USD']});
+
+    expect(groups.map(group => [group.label, group.options.map(option => option.alphaCode)])).toEqual([
+      ['Favorites', ['USD']],
+      ['Recently used', ['JPY']],
+      ['All currencies', ['AUD', 'CAD', 'EUR']],
+    ]);
+  });
+
+  it('should leave out empty groups', () => {
+    const groups = groupCurrencyOptions(options.slice(0, 2), {favorites: ['USD'], recent: []});
+
+    expect(groups.map(group => group.label)).toEqual(['All currencies']);
+  });
+});
@@ -0,0 +1,93 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { CurrencyMetadata } from './currency-info.data';
+import { loadStored, saveStored } from './local-storage';
+
+/* Currencies the user has pinned, and the ones they used most recently (alpha codes, most important first) */
+export interface CurrencyPreferences {
+  favorites: string[];
+  recent: string[];
+}
+
+/* A labelled group of options in a currency autocomplete */
+export interface CurrencyOptionGroup {
+  label: string;
+  options: CurrencyMetadata[];
+}
+
+/**
+ * Groups currency options into favorites, recently used currencies, then every other currency (in the order given).
+ * Each currency is only listed once, and groups without options are left out.
+ */
+export function groupCurrencyOptions(options: CurrencyMetadata[], preferences: CurrencyPreferences): CurrencyOptionGroup[] {
+  const byCode = (codes: string[]) => codes
+    .map(code => options.find(option => option.alphaCode === code))
+    .filter(option => option !== undefined);
+
+  const favorites = byCode(preferences.favorites);
+  const recent = byCode(preferences.recent).filter(option => !favorites.includes(option));
+  const others = options.filter(option => !favorites.includes(option) && !recent.includes(option));
+
+  return [
+    {label: 'Favorites', options: favorites},
+    {label: 'Recently used', options: recent},
+    {label: 'All currencies', options: others},
+  ].filter(group => group.options.length > 0);
+}
+
+/**
+ * Keeps the user's favorite and recently used currencies, persisted in `localStorage` so that they're kept across
+ * sessions.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CurrencyPreferencesService {
+  readonly key = 'currency-converter.currencies';
+  /* Number of recently used currencies kept */
+  readonly maxRecent = 5;
+
+  private preferencesSubject = new BehaviorSubject<CurrencyPreferences>(this.load());
+  preferencesObs: Observable<CurrencyPreferences> = this.preferencesSubject.asObservable();
+
+  get preferences(): CurrencyPreferences {
+    return this.preferencesSubject.value;
+  }
+
+  isFavorite(code: string): boolean {
+    return this.preferences.favorites.includes(code);
+  }
+
+  /* Pins a currency as a favorite (or unpins it, if it already is one) */
+  toggleFavorite(code: string): void {
+    const favorites = this.preferences.favorites;
+    this.save({
+      ...this.preferences,
+      favorites: this.isFavorite(code) ? favorites.filter(c => c !== code) : [...favorites, code],
+    });
+  }
+
+  /* Moves a currency to the top of the recently used currencies */
+  useCurrency(code: string): void {
+    const recent = [code, ...this.preferences.recent.filter(c => c !== code)].slice(0, this.maxRecent);
+    this.save({...this.preferences, recent});
+  }
+
+  /* Forgets every favorite and recently used currency */
+  clear(): void {
+    this.save({favorites: [], recent: []});
+  }
+
+  private load(): CurrencyPreferences {
+    const stored = loadStored(this.key, 'currency preferences', ({favorites, recent}) => {
+      return Array.isArray(favorites) && Array.isArray(recent) ? {favorites, recent} : null;
+    });
+    return stored ?? {favorites: [], recent: []};
+  }
+
+  private save(preferences: CurrencyPreferences): void {
+    this.preferencesSubject.next(preferences);
+    saveStored(this.key, preferences, 'currency preferences');
+  }
+}
@@ -0,0 +1,31 @@
+import { conversionRate, convertAmount, RoundingMode } from './decimal-conversion';
+import { ConversionLeg } from './currency-conversion.service';
+
+describe('decimal conversion', () => {
+  const usdToCad: ConversionLeg = {from: 'USD', to: 'CAD', rate: '1.3', published: '1.3', inverse: false};
+  const cadToUsd: ConversionLeg = {from: 'CAD', to: 'USD', rate: '0.7692307692', published: '1.3', inverse: true};
+
+  it('should not accumulate floating point error', () => {
+    // 1.1 * 1.3 is 1.4300000000000002 in floating point
+    expect(convertAmount('1.1', [usdToCad], 4, RoundingMode.halfEven)).toBe('1.4300');
+  });
+
+  it('should round a round trip back to the original amount', () => {
+    expect(convertAmount('1.3', [cadToUsd], 2, RoundingMode.halfEven)).toBe('1.00');
+    expect(convertAmount('100', [usdToCad, cadToUsd], 2, RoundingMode.truncate)).toBe('100.00');
+  });
+
+  it('should round halves according to the rounding mode', () => {
+    const half: ConversionLeg = {from: 'USD', to: 'CAD', rate: '0.5', published: '0.5', inverse: false};
+    expect(convertAmount('5', [half], 0, RoundingMode.halfEven)).toBe('2');
+    expect(convertAmount('5', [half], 0, RoundingMode.halfUp)).toBe('3');
+    expect(convertAmount('7', [half], 0, RoundingMode.halfEven)).toBe('4');
+    expect(convertAmount('7', [half], 0, RoundingMode.truncate)).toBe('3');
+  });
+
+  it('should give rates without trailing zeros', () => {
+    expect(conversionRate([usdToCad])).toBe('1.3');
+    expect(conversionRate([cadToUsd])).toBe('0.7692307692');
+    expect(conversionRate([])).toBe('1');
+  });
+});
@@ -0,0 +1,87 @@
+import * as Big from 'big.js';
+
+import { ConversionLeg } from './currency-conversion.service';
+
+/* How a converted amount is rounded to the target currency's minor unit */
+export enum RoundingMode {
+  /* Round half to even ("banker's rounding"), e.g. 0.125 -> 0.12, 0.135 -> 0.14 */
+  halfEven = 'halfEven',
+  /* Round half away from zero, e.g. 0.125 -> 0.13 */
+  halfUp = 'halfUp',
+  /* Drop the digits past the minor unit, e.g. 0.129 -> 0.12 */
+  truncate = 'truncate',
+}
+
+export const BIG_ROUNDING_MODES: {[mode in RoundingMode]: Big.RoundingMode} = {
+  halfEven: Big.roundHalfEven,
+  halfUp: Big.roundHalfUp,
+  truncate: Big.roundDown,
+};
+
+/* Currencies without a minor unit (e.g. gold, XAU) keep as many decimal places as the app always displayed */
+export const DEFAULT_DECIMAL_PLACES = 4;
+/* Conversion rates are shown to this many decimal places at most */
+export const RATE_DECIMAL_PLACES = 10;
+
+/**
+ * The Big constructor for calculations with rates, which divide to `RATE_DECIMAL_PLACES` and round half to even. It's
+ * separate from `Big`, so that its precision and rounding mode don't affect other Big numbers.
+ */
+export const RateBig = Big();
+RateBig.DP = RATE_DECIMAL_PLACES;
+RateBig.RM = Big.roundHalfEven;
+
+/**
+ * Applies each leg of a conversion to an amount, and rounds the result to the given number of decimal places.
+ *
+ * Every published rate is multiplied (or divided, for inverted legs) as an exact decimal, and the single division at
+ * the end is rounded directly to the requested places, so the result is correctly rounded for the given mode.
+ */
+function applyLegs(amount: string, legs: ConversionLeg[], decimalPlaces: number, rounding: RoundingMode): Big {
+  let numerator = new Big(amount);
+  let denominator = new Big(1);
+
+  for (const leg of legs) {
+    if (leg.inverse) {
+      denominator = denominator.times(leg.published);
+    } else {
+      numerator = numerator.times(leg.published);
+    }
+  }
+
+  // A separate constructor, as the precision and rounding mode depend on the conversion (see `RateBig`)
+  const Rounded = Big();
+  Rounded.DP = decimalPlaces;
+  Rounded.RM = BIG_ROUNDING_MODES[rounding];
+
+  return new Rounded(numerator).div(denominator);
+}
+
+/* Converts an amount (a decimal string) using the legs of a conversion, e.g. "100.00" USD -> "90.48" EUR */
+export function convertAmount(amount: string, legs: ConversionLeg[], decimalPlaces: number, rounding: RoundingMode): string {
+  return applyLegs(amount, legs, decimalPlaces, rounding).toFixed(decimalPlaces);
+}
+
+/**
+ * Converts an amount at a given rate (e.g. an average rate for a period), rounding to the given number of decimal
+ * places. When `inverse` is set, the amount is divided by the rate rather than multiplied.
+ */
+export function convertAtRate(amount: string, rate: string, inverse: boolean, decimalPlaces: number, rounding: RoundingMode): string {
+  const leg = {from: '', to: '', rate, published: rate, inverse};
+  return convertAmount(amount, [leg], decimalPlaces, rounding);
+}
+
+/* The rate for the legs of a conversion, without trailing zeros (e.g. "0.7462686567") */
+export function conversionRate(legs: ConversionLeg[]): string {
+  return applyLegs('1', legs, RATE_DECIMAL_PLACES, RoundingMode.halfEven).toFixed();
+}
+
+/* The difference between two decimal strings (`to` - `from`), e.g. the change in a converted amount */
+export function difference(from: string, to: string): string {
+  return new Big(to).minus(from).toFixed();
+}
+
+/* The change from one decimal string to another, in percent (to `RATE_DECIMAL_PLACES`) */
+export function percentChange(from: string, to: string): string {
+  return new RateBig(to).minus(from).times(100).div(from).toFixed();
+}
@@ -0,0 +1,69 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+
+import { EcbRateProvider, parseEurofxref } from './ecb-rate-provider';
+
+const HISTORICAL_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="2020-03-03">
+      <Cube currency="USD" rate="1.1117"/>
+      <Cube currency="JPY" rate="119.86"/>
+    </Cube>
+    <Cube time="2020-03-02">
+      <Cube currency="USD" rate="1.1156"/>
+      <Cube currency="JPY" rate="119.49"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+describe('parseEurofxref', () => {
+  it('should parse observations from oldest to newest', () => {
+    expect(parseEurofxref(HISTORICAL_XML)).toEqual([
+      {date: '2020-03-02', rates: {USD: '1.1156', JPY: '119.49'}},
+      {date: '2020-03-03', rates: {USD: '1.1117', JPY: '119.86'}},
+    ]);
+  });
+
+  it('should reject malformed XML', () => {
+    expect(() => parseEurofxref('<Cube>')).toThrowError(/not valid XML/);
+  });
+});
+
+describe('EcbRateProvider', () => {
+  let provider: EcbRateProvider;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [
+        HttpClientTestingModule,
+      ]
+    });
+    provider = TestBed.inject(EcbRateProvider);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should list the currencies in the daily file, including EUR', () => {
+    provider.getAvailableCurrencies().subscribe(codes => {
+      expect(codes).toEqual(['EUR', 'USD', 'JPY']);
+    });
+
+    httpMock.expectOne('https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml').flush(HISTORICAL_XML);
+  });
+
+  it('should provide indirectly quoted history', () => {
+    provider.getRateHistory().subscribe(history => {
+      expect(history.base).toBe('EUR');
+      expect(history.quotation).toBe('indirect');
+      expect(history.observations.length).toBe(2);
+    });
+
+    httpMock.expectOne('https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist.xml').flush(HISTORICAL_XML);
+  });
+});
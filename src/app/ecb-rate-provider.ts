@@ -0,0 +1,118 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+import * as mtz from 'moment-timezone';
+
+import { RateHistory, RateObservation, RateProvider } from './rate-provider';
+import { isDecimalString, isIsoDate, RateDataError } from './rate-validation';
+import { targetClosingDays, weekdaysExcept } from './publication-calendar';
+
+/**
+ * Parses the European Central Bank's `eurofxref` XML (either the daily or historical file) into observations, ordered
+ * from oldest to newest. Both files have the same structure, the daily file just has a single day in it:
+ *
+ *     <gesmes:Envelope ...>
+ *       <Cube>
+ *         <Cube time="2020-03-02">
+ *           <Cube currency="USD" rate="1.1156"/>
+ *           ...
+ *         </Cube>
+ *       </Cube>
+ *     </gesmes:Envelope>
+ *
+ * Rates are the amount of the currency that 1 EUR buys.
+ */
+export function parseEurofxref(xml: string): RateObservation[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new RateDataError('eurofxref response is not valid XML');
+  }
+
+  const observations: RateObservation[] = [];
+  for (const day of Array.from(doc.getElementsByTagName('Cube'))) {
+    if (!day.hasAttribute('time')) {
+      continue;
+    }
+
+    const date = day.getAttribute('time');
+    if (!isIsoDate(date)) {
+      throw new RateDataError(`eurofxref has an invalid date "${date}"`);
+    }
+
+    const rates: {[code: string]: string} = {};
+    for (const currency of Array.from(day.getElementsByTagName('Cube'))) {
+      const code = currency.getAttribute('currency');
+      const rate = currency.getAttribute('rate');
+      if (!/^[A-Z]{3}$/.test(code ?? '') || !isDecimalString(rate ?? '')) {
+        throw new RateDataError(`eurofxref has an invalid rate for "${code}" on ${date}`);
+      }
+      rates[code] = rate;
+    }
+
+    observations.push({date, rates});
+  }
+
+  // The historical file lists the newest day first
+  return observations.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Fetches the euro foreign exchange reference rates published by the European Central Bank
+ * (https://www.ecb.europa.eu/stats/policy_and_exchange_rates/euro_reference_exchange_rates/html/index.en.html).
+ *
+ * The ECB publishes on TARGET business days rather than Canadian business days, so its observations have gaps on
+ * different dates than the Bank of Canada's.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EcbRateProvider implements RateProvider {
+  readonly id = 'ecb';
+  readonly name = 'European Central Bank';
+  readonly baseCurrency = 'EUR';
+  readonly timeZone = 'Europe/Berlin';
+  readonly publicationHour = 16;
+  readonly publicationMinute = 0;
+  readonly isPublicationDay = weekdaysExcept(targetClosingDays);
+
+  readonly eurofxrefUrl = 'https://www.ecb.europa.eu/stats/eurofxref';
+
+  constructor(private http: HttpClient) {
+  }
+
+  getAvailableCurrencies(): Observable<string[]> {
+    return this.http.get(`${this.eurofxrefUrl}/eurofxref-daily.xml`, {responseType: 'text'}).pipe(
+      map(xml => parseEurofxref(xml)),
+      map(observations => {
+        const latest = observations[observations.length - 1];
+        return [this.baseCurrency, ...Object.keys(latest ? latest.rates : {})];
+      }),
+    );
+  }
+
+  /* Key of the ECB's daily reference rate series in its Statistical Data Warehouse (e.g. 'EXR.D.USD.EUR.SP00.A') */
+  seriesId(code: string): string {
+    return `EXR.D.${code}.${this.baseCurrency}.SP00.A`;
+  }
+
+  /**
+   * The ECB doesn't support querying for a date range, but it does publish a file with only the last 90 days of rates,
+   * which is enough when `startDate` is recent.
+   */
+  getRateHistory(startDate?: string): Observable<RateHistory> {
+    const recent = startDate && mtz.tz(startDate, this.timeZone).isAfter(mtz().subtract(85, 'days'));
+    const file = recent ? 'eurofxref-hist-90d.xml' : 'eurofxref-hist.xml';
+
+    return this.http.get(`${this.eurofxrefUrl}/${file}`, {responseType: 'text'}).pipe(
+      map(xml => ({
+        base: this.baseCurrency,
+        timeZone: this.timeZone,
+        quotation: 'indirect' as const,
+        observations: parseEurofxref(xml).filter(o => !startDate || o.date >= startDate),
+      })),
+    );
+  }
+}
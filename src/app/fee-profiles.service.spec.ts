@@ -0,0 +1,39 @@
+import { TestBed } from '@angular/core/testing';
+
+import { FeeProfilesService } from './fee-profiles.service';
+
+describe('FeeProfilesService', () => {
+  let service: FeeProfilesService;
+  const card = {name: 'Card', spreadPercent: '2.5', fixedFee: '0', minimumFee: '0', feeCurrency: 'from' as const};
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(FeeProfilesService);
+    service.clear();
+  });
+
+  afterEach(() => {
+    service.clear();
+  });
+
+  it('should add and update profiles, and keep them across sessions', () => {
+    const saved = service.save(card);
+    service.save({...card, name: 'Wire', fixedFee: '15'});
+    service.save({...saved, spreadPercent: '3'});
+
+    expect(service.profiles.map(profile => [profile.name, profile.spreadPercent])).toEqual([['Card', '3'], ['Wire', '2.5']]);
+    expect(new FeeProfilesService().profiles).toEqual(service.profiles);
+  });
+
+  it('should keep the selected profile until it is deleted', () => {
+    const saved = service.save(card);
+    service.select(saved.id);
+
+    expect(service.selected).toEqual(saved);
+    expect(new FeeProfilesService().selected).toEqual(saved);
+
+    service.remove(saved.id);
+    expect(service.selected).toBeNull();
+    expect(service.profiles).toEqual([]);
+  });
+});
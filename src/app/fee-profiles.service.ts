@@ -0,0 +1,83 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { FeeProfile } from './fees';
+import { loadStored, newId, saveStored } from './local-storage';
+
+/* The saved fee profiles, and the id of the one conversions are shown with (null for the mid-market rate only) */
+export interface FeeProfiles {
+  profiles: FeeProfile[];
+  selected: string | null;
+}
+
+/* What's saved for a profile (new profiles are given an id) */
+export type NewFeeProfile = Omit<FeeProfile, 'id'> & {id?: string};
+
+/**
+ * Keeps the user's fee profiles, and which one is selected, persisted in `localStorage` so that they're kept across
+ * sessions.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FeeProfilesService {
+  readonly key = 'currency-converter.fee-profiles';
+
+  private profilesSubject = new BehaviorSubject<FeeProfiles>(this.load());
+  profilesObs: Observable<FeeProfiles> = this.profilesSubject.asObservable();
+
+  get profiles(): FeeProfile[] {
+    return this.profilesSubject.value.profiles;
+  }
+
+  /* The selected profile, if any */
+  get selected(): FeeProfile | null {
+    return this.find(this.profilesSubject.value.selected);
+  }
+
+  find(id: string | null): FeeProfile | null {
+    return this.profiles.find(profile => profile.id === id) ?? null;
+  }
+
+  /* Adds a profile, or replaces the one with the same id, and returns it */
+  save(profile: NewFeeProfile): FeeProfile {
+    const saved = {...profile, id: profile.id ?? newId()};
+    const profiles = this.find(saved.id)
+      ? this.profiles.map(other => other.id === saved.id ? saved : other)
+      : [...this.profiles, saved];
+
+    this.store({...this.profilesSubject.value, profiles});
+    return saved;
+  }
+
+  /* Deletes a profile, deselecting it if it was selected */
+  remove(id: string): void {
+    const selected = this.profilesSubject.value.selected;
+    this.store({
+      profiles: this.profiles.filter(profile => profile.id !== id),
+      selected: selected === id ? null : selected,
+    });
+  }
+
+  /* Selects a profile to show conversions with, or none (null) */
+  select(id: string | null): void {
+    this.store({...this.profilesSubject.value, selected: this.find(id) ? id : null});
+  }
+
+  /* Deletes every profile */
+  clear(): void {
+    this.store({profiles: [], selected: null});
+  }
+
+  private load(): FeeProfiles {
+    const stored = loadStored(this.key, 'fee profiles', ({profiles, selected}) => {
+      return Array.isArray(profiles) ? {profiles, selected: selected ?? null} : null;
+    });
+    return stored ?? {profiles: [], selected: null};
+  }
+
+  private store(profiles: FeeProfiles): void {
+    this.profilesSubject.next(profiles);
+    saveStored(this.key, profiles, 'fee profiles');
+  }
+}
@@ -0,0 +1,69 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { FeeProfilesComponent } from './fee-profiles.component';
+
+import { FeeProfilesService } from '../fee-profiles.service';
+
+describe('FeeProfilesComponent', () => {
+  let component: FeeProfilesComponent;
+  let fixture: ComponentFixture<FeeProfilesComponent>;
+  let feeProfiles: FeeProfilesService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [ FeeProfilesComponent ]
+    })
+    .compileComponents();
+
+    feeProfiles = TestBed.inject(FeeProfilesService);
+    feeProfiles.clear();
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(FeeProfilesComponent);
+    component = fixture.componentInstance;
+  });
+
+  afterEach(() => {
+    feeProfiles.clear();
+  });
+
+  it('should add a profile and select it', () => {
+    component.form.setValue({name: ' Card ', spreadPercent: '2.5', fixedFee: '1,000', minimumFee: '0', feeCurrency: 'to'});
+    component.save();
+
+    expect(feeProfiles.profiles.length).toBe(1);
+    expect(feeProfiles.selected).toEqual({
+      id: component.editingId, name: 'Card', spreadPercent: '2.5', fixedFee: '1000', minimumFee: '0', feeCurrency: 'to',
+    });
+  });
+
+  it('should edit a profile in place', () => {
+    const profile = feeProfiles.save({name: 'Card', spreadPercent: '2.5', fixedFee: '0', minimumFee: '0', feeCurrency: 'from'});
+
+    component.edit(profile);
+    component.form.patchValue({spreadPercent: '3'});
+    component.save();
+
+    expect(feeProfiles.profiles).toEqual([{...profile, spreadPercent: '3'}]);
+  });
+
+  it('should not save fees that are not amounts, or a spread of 100% or more', () => {
+    component.form.setValue({name: 'Card', spreadPercent: '100', fixedFee: 'abc', minimumFee: '0', feeCurrency: 'from'});
+    component.save();
+
+    expect(feeProfiles.profiles).toEqual([]);
+    expect(component.feeError(component.form.get('spreadPercent'))).toBe('The spread must be under 100%');
+    expect(component.feeError(component.form.get('fixedFee'))).toBe('"a" isn\'t allowed in an amount');
+  });
+
+  it('should start a new profile when the one being edited is deleted', () => {
+    const profile = feeProfiles.save({name: 'Card', spreadPercent: '2.5', fixedFee: '0', minimumFee: '0', feeCurrency: 'from'});
+
+    component.edit(profile);
+    component.remove(profile);
+
+    expect(component.editingId).toBeNull();
+    expect(component.form.value.name).toBe('');
+  });
+});
@@ -0,0 +1,110 @@
+import { Component, Inject, LOCALE_ID } from '@angular/core';
+import { AbstractControl, FormControl, FormGroup, ValidatorFn, Validators } from '@angular/forms';
+
+import { AmountValidator } from '../amount-validator.directive';
+import { formatAmount, parseAmount } from '../amount-parser';
+import { FeeProfile } from '../fees';
+import { FeeProfilesService } from '../fee-profiles.service';
+
+/* A spread of 100% or more would take the whole amount (checked once the amount itself is valid) */
+function spreadValidator(locale: string): ValidatorFn {
+  return (control: AbstractControl): {[key: string]: any} | null => {
+    let spread: number;
+    try {
+      spread = Number(parseAmount(control.value ?? '', locale));
+    } catch (e) {
+      return null;
+    }
+    return spread < 100 ? null : {spreadTooHigh: {value: control.value, message: 'The spread must be under 100%'}};
+  };
+}
+
+/**
+ * Adds, edits and deletes fee profiles: what a bank or card charges on top of the mid-market rate. Fees are typed the
+ * way the locale writes numbers, like amounts in the converter. Saving a profile selects it, so that conversions are
+ * shown with its fees.
+ */
+@Component({
+  selector: 'app-fee-profiles',
+  templateUrl: './fee-profiles.component.html',
+  styleUrls: ['./fee-profiles.component.css'],
+})
+export class FeeProfilesComponent {
+  /* Id of the profile being edited, or null when adding one */
+  editingId: string | null = null;
+
+  form = new FormGroup({
+    name: new FormControl('', [Validators.required]),
+    spreadPercent: new FormControl('0', [Validators.required, this.feeValidator(), spreadValidator(this.locale)]),
+    fixedFee: new FormControl('0', [Validators.required, this.feeValidator()]),
+    minimumFee: new FormControl('0', [Validators.required, this.feeValidator()]),
+    feeCurrency: new FormControl('from'),
+  });
+
+  constructor(
+    public feeProfiles: FeeProfilesService,
+    @Inject(LOCALE_ID) private locale: string,
+  ) { }
+
+  /* Fills the form with a profile, to edit it */
+  edit(profile: FeeProfile): void {
+    this.editingId = profile.id;
+    this.form.setValue({
+      name: profile.name,
+      spreadPercent: formatAmount(profile.spreadPercent, this.locale),
+      fixedFee: formatAmount(profile.fixedFee, this.locale),
+      minimumFee: formatAmount(profile.minimumFee, this.locale),
+      feeCurrency: profile.feeCurrency,
+    });
+  }
+
+  /* Clears the form, to add a new profile */
+  newProfile(): void {
+    this.editingId = null;
+    this.form.reset({name: '', spreadPercent: '0', fixedFee: '0', minimumFee: '0', feeCurrency: 'from'});
+  }
+
+  /* Saves the profile in the form, and selects it */
+  save(): void {
+    if (this.form.invalid) {
+      return;
+    }
+
+    const value = this.form.value;
+    const saved = this.feeProfiles.save({
+      id: this.editingId ?? undefined,
+      name: value.name.trim(),
+      spreadPercent: parseAmount(value.spreadPercent, this.locale),
+      fixedFee: parseAmount(value.fixedFee, this.locale),
+      minimumFee: parseAmount(value.minimumFee, this.locale),
+      feeCurrency: value.feeCurrency,
+    });
+    this.feeProfiles.select(saved.id);
+    this.editingId = saved.id;
+  }
+
+  remove(profile: FeeProfile): void {
+    this.feeProfiles.remove(profile.id);
+    if (this.editingId === profile.id) {
+      this.newProfile();
+    }
+  }
+
+  /* Summarizes a profile's fees, e.g. "2.5% spread, 1 fixed fee, 5 minimum (in the currency paid)" */
+  describe(profile: FeeProfile): string {
+    const currency = profile.feeCurrency === 'from' ? 'the currency paid' : 'the currency received';
+    return `${formatAmount(profile.spreadPercent, this.locale)}% spread, ${formatAmount(profile.fixedFee, this.locale)} fixed fee, `
+      + `${formatAmount(profile.minimumFee, this.locale)} minimum (in ${currency})`;
+  }
+
+  /* Explains what's wrong with a fee */
+  feeError(control: AbstractControl): string {
+    const errors = control.errors ?? {};
+    return (errors.invalidAmount ?? errors.spreadTooHigh)?.message ?? 'Enter a fee (0 for none)';
+  }
+
+  /* Fees are amounts without a currency, so any number of decimal places is allowed */
+  private feeValidator(): ValidatorFn {
+    return AmountValidator(this.locale, () => null, () => 0);
+  }
+}
@@ -0,0 +1,64 @@
+import { RoundingMode } from './decimal-conversion';
+import { FeeProfile, feesOnAmountPaid, feesOnAmountReceived } from './fees';
+
+describe('fees', () => {
+  const profile = (fees: Partial<FeeProfile>): FeeProfile => ({
+    id: 'card', name: 'Card', spreadPercent: '0', fixedFee: '0', minimumFee: '0', feeCurrency: 'from', ...fees,
+  });
+
+  it('should take the spread and fixed fee off the amount paid', () => {
+    const fees = feesOnAmountPaid('100', '1.35', profile({spreadPercent: '2.5', fixedFee: '1'}), 2, 2, RoundingMode.halfEven);
+
+    expect(fees).toEqual({
+      paid: '100.00',
+      received: '130.28',
+      spread: '2.50',
+      fixed: '1.00',
+      minimumTopUp: '0.00',
+      total: '3.50',
+      effectiveRate: '1.3028',
+    });
+  });
+
+  it('should make the fees up to the minimum', () => {
+    const card = profile({spreadPercent: '2.5', fixedFee: '1', minimumFee: '5'});
+    const fees = feesOnAmountPaid('10', '1.35', card, 2, 2, RoundingMode.halfEven);
+
+    expect(fees.minimumTopUp).toBe('3.75');
+    expect(fees.total).toBe('5.00');
+    expect(fees.received).toBe('6.75');
+  });
+
+  it('should convert fees charged in the currency received at the mid-market rate', () => {
+    const fees = feesOnAmountPaid('100', '1.25', profile({fixedFee: '5', feeCurrency: 'to'}), 2, 2, RoundingMode.halfEven);
+
+    expect(fees.fixed).toBe('4.00');
+    expect(fees.received).toBe('120.00');
+  });
+
+  it('should not receive anything when the fees take the whole amount', () => {
+    const fees = feesOnAmountPaid('2', '1.35', profile({minimumFee: '5'}), 2, 2, RoundingMode.halfEven);
+
+    expect(fees.total).toBe('5.00');
+    expect(fees.received).toBe('0.00');
+    expect(fees.effectiveRate).toBe('0');
+  });
+
+  it('should work out how much to pay to receive an amount after fees', () => {
+    const card = profile({spreadPercent: '2.5', fixedFee: '1', minimumFee: '5'});
+
+    let fees = feesOnAmountReceived('121.25', '1.25', profile({spreadPercent: '2', fixedFee: '1'}), 2, 2, RoundingMode.halfEven);
+    expect(fees.paid).toBe('100.00');
+    expect(fees.total).toBe('3.00');
+    expect(fees.received).toBe('121.25');
+
+    // Small amounts pay the minimum fee
+    fees = feesOnAmountReceived('6.75', '1.35', card, 2, 2, RoundingMode.halfEven);
+    expect(fees.paid).toBe('10.00');
+    expect(fees.total).toBe('5.00');
+
+    // Never less than asked for, even when the fees round awkwardly
+    fees = feesOnAmountReceived('1000', '0.0073', profile({spreadPercent: '1.7'}), 0, 2, RoundingMode.halfUp);
+    expect(Number(fees.received)).toBeGreaterThanOrEqual(1000);
+  });
+});
@@ -0,0 +1,94 @@
+import * as Big from 'big.js';
+
+import { BIG_ROUNDING_MODES, RATE_DECIMAL_PLACES, RateBig, RoundingMode } from './decimal-conversion';
+
+/* The currency a fixed or minimum fee is charged in: the one paid ("from") or the one received ("to") */
+export type FeeCurrency = 'from' | 'to';
+
+/* What a bank or card charges on a conversion, on top of the mid-market rate. Amounts are decimal strings. */
+export interface FeeProfile {
+  id: string;
+  name: string;
+  /* Markup on the amount converted, in percent (e.g. "2.5"), under 100 */
+  spreadPercent: string;
+  /* Charged on every conversion */
+  fixedFee: string;
+  /* The least the spread and fixed fee are made up to */
+  minimumFee: string;
+  feeCurrency: FeeCurrency;
+}
+
+/**
+ * The fees on a conversion, and what's paid and received once they're taken off the amount paid. Amounts are decimal
+ * strings, and fees are in the currency paid.
+ */
+export interface FeeBreakdown {
+  paid: string;
+  received: string;
+  spread: string;
+  fixed: string;
+  /* What's added to the spread and fixed fee to make up the minimum fee (0 if they already reach it) */
+  minimumTopUp: string;
+  total: string;
+  /* Rate for 1 unit paid in the currency received, after fees (to `RATE_DECIMAL_PLACES`) */
+  effectiveRate: string;
+}
+
+/**
+ * Works out the fees on paying `paid` (in the "from" currency) for a conversion at the mid-market `rate` (1 "from" =
+ * `rate` "to"). Fees charged in the "to" currency are converted at the mid-market rate. Fees are rounded to the "from"
+ * currency's `fromPlaces`, and the amount received to the "to" currency's `toPlaces`, both with the given rounding;
+ * nothing is received if the fees take the whole amount.
+ */
+export function feesOnAmountPaid(
+  paid: string, rate: string, profile: FeeProfile, fromPlaces: number, toPlaces: number, rounding: RoundingMode
+): FeeBreakdown {
+  const mode = BIG_ROUNDING_MODES[rounding];
+  const inFromCurrency = (fee: string) =>
+    (profile.feeCurrency === 'to' ? new RateBig(fee).div(rate) : new RateBig(fee)).round(fromPlaces, mode);
+
+  const amount = new RateBig(paid);
+  const spread = amount.times(profile.spreadPercent).div(100).round(fromPlaces, mode);
+  const fixed = inFromCurrency(profile.fixedFee);
+  const minimum = inFromCurrency(profile.minimumFee);
+  const minimumTopUp = minimum.gt(spread.plus(fixed)) ? minimum.minus(spread).minus(fixed) : new RateBig(0);
+  const total = spread.plus(fixed).plus(minimumTopUp);
+  const received = amount.gt(total) ? amount.minus(total).times(rate).round(toPlaces, mode) : new RateBig(0);
+
+  return {
+    paid: amount.toFixed(fromPlaces),
+    received: received.toFixed(toPlaces),
+    spread: spread.toFixed(fromPlaces),
+    fixed: fixed.toFixed(fromPlaces),
+    minimumTopUp: minimumTopUp.toFixed(fromPlaces),
+    total: total.toFixed(fromPlaces),
+    effectiveRate: amount.eq(0) ? '0' : received.div(amount).round(RATE_DECIMAL_PLACES).toFixed(),
+  };
+}
+
+/**
+ * Works out how much has to be paid (in the "from" currency) to receive at least `received` (in the "to" currency)
+ * once the fees are taken, and the fees on it, as in `feesOnAmountPaid`. The amount paid is rounded up to the "from"
+ * currency's minor unit.
+ */
+export function feesOnAmountReceived(
+  received: string, rate: string, profile: FeeProfile, fromPlaces: number, toPlaces: number, rounding: RoundingMode
+): FeeBreakdown {
+  const inFromCurrency = (fee: string) => profile.feeCurrency === 'to' ? new RateBig(fee).div(rate) : new RateBig(fee);
+
+  // The amount converted has to cover the mid-market cost, and either the spread and fixed fee or the minimum fee
+  const cost = new RateBig(received).div(rate);
+  const spreadKept = new RateBig(1).minus(new RateBig(profile.spreadPercent).div(100));
+  const withSpread = cost.plus(inFromCurrency(profile.fixedFee)).div(spreadKept);
+  const withMinimum = cost.plus(inFromCurrency(profile.minimumFee));
+  let paid = (withSpread.gt(withMinimum) ? withSpread : withMinimum).round(fromPlaces, Big.roundUp);
+
+  // Rounding the fees can still leave the amount received a minor unit short
+  const minorUnit = new RateBig(1).div(new RateBig(10).pow(fromPlaces));
+  let breakdown = feesOnAmountPaid(paid.toFixed(fromPlaces), rate, profile, fromPlaces, toPlaces, rounding);
+  while (new RateBig(breakdown.received).lt(received)) {
+    paid = paid.plus(minorUnit);
+    breakdown = feesOnAmountPaid(paid.toFixed(fromPlaces), rate, profile, fromPlaces, toPlaces, rounding);
+  }
+  return breakdown;
+}
@@ -0,0 +1,46 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { describeLoadingError, formatLoadingError, LoadingError, LoadingErrorKind } from './loading-error';
+import { PartialRateDataError, RateDataError } from './rate-validation';
+
+describe('loading errors', () => {
+  const time = new Date('2020-03-02T12:00:00Z');
+  const url = 'https://www.bankofcanada.ca/valet/groups/FX_RATES_DAILY/json';
+
+  function describeError(error: any, online: boolean = true): LoadingError {
+    return describeLoadingError(error, 'fetchingCurrencies', 'Bank of Canada', online, time);
+  }
+
+  it('should tell a network failure from a blocked request', () => {
+    const error = new HttpErrorResponse({status: 0, statusText: 'Unknown Error', url});
+    expect(describeError(error, false).kind).toBe(LoadingErrorKind.network);
+    expect(describeError(error, true).kind).toBe(LoadingErrorKind.blocked);
+  });
+
+  it('should report HTTP error statuses', () => {
+    const error = describeError(new HttpErrorResponse({status: 503, statusText: 'Service Unavailable', url}));
+    expect(error.kind).toBe(LoadingErrorKind.httpStatus);
+    expect(error.message).toContain('HTTP 503 Service Unavailable');
+    expect(error.detail).toContain(url);
+  });
+
+  it('should report unreadable responses as malformed', () => {
+    const error = describeError(new HttpErrorResponse({status: 200, statusText: 'OK', url, error: {
+      error: new SyntaxError('Unexpected token < in JSON at position 0'),
+    }}));
+    expect(error.kind).toBe(LoadingErrorKind.malformedData);
+    expect(error.detail).toContain('Unexpected token');
+    expect(describeError(new RateDataError('missing groupSeries')).kind).toBe(LoadingErrorKind.malformedData);
+  });
+
+  it('should report partial data', () => {
+    const error = describeError(new PartialRateDataError('no rates'));
+    expect(error.kind).toBe(LoadingErrorKind.partialData);
+    expect(error.message).toContain('no rates');
+  });
+
+  it('should format a timestamped log line', () => {
+    const error = describeError(new RateDataError('missing groupSeries'));
+    expect(formatLoadingError(error)).toBe('2020-03-02T12:00:00.000Z [fetchingCurrencies] malformedData: missing groupSeries');
+  });
+});
@@ -0,0 +1,123 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { PartialRateDataError, RateDataError } from './rate-validation';
+
+/* The different reasons loading data from a rate provider can fail */
+export enum LoadingErrorKind {
+  /* The device is offline */
+  network = 'network',
+  /* The request never completed (e.g. a browser plugin or firewall blocked it, or the service is unreachable) */
+  blocked = 'blocked',
+  /* The service responded with an HTTP error status */
+  httpStatus = 'httpStatus',
+  /* The service responded, but not with data in the format we expect */
+  malformedData = 'malformedData',
+  /* The data was well formed, but incomplete */
+  partialData = 'partialData',
+}
+
+/* A failure while loading data from a rate provider, described for the user */
+export interface LoadingError {
+  kind: LoadingErrorKind;
+  /* The stage of loading that failed (e.g. 'fetchingCurrencies') */
+  stage: string;
+  /* Explanation of what went wrong, to show the user */
+  message: string;
+  /* Technical details (status, URL, parser message), for support tickets */
+  detail: string;
+  time: Date;
+}
+
+/**
+ * Works out why loading failed from the error a rate provider's observable emitted.
+ *
+ * The browser doesn't tell us why a request that never got a response failed (status 0), so a blocked request and an
+ * unreachable service look the same. We can only tell the user for certain when their device is offline.
+ */
+export function describeLoadingError(
+  error: any,
+  stage: string,
+  sourceName: string,
+  online: boolean = navigator.onLine,
+  time: Date = new Date(),
+): LoadingError {
+  if (error instanceof PartialRateDataError) {
+    return {
+      kind: LoadingErrorKind.partialData,
+      stage,
+      message: `The ${sourceName} sent incomplete exchange rate data (${error.message}).`,
+      detail: error.message,
+      time,
+    };
+  }
+
+  if (error instanceof RateDataError) {
+    return {
+      kind: LoadingErrorKind.malformedData,
+      stage,
+      message: `The ${sourceName} sent exchange rate data in a format this app doesn't understand (${error.message}).`,
+      detail: error.message,
+      time,
+    };
+  }
+
+  if (error instanceof HttpErrorResponse) {
+    const request = error.url ?? 'unknown URL';
+
+    if (error.status === 0) {
+      if (!online) {
+        return {
+          kind: LoadingErrorKind.network,
+          stage,
+          message: `Couldn't reach the ${sourceName} because your device appears to be offline.`,
+          detail: `offline, request to ${request}`,
+          time,
+        };
+      }
+      return {
+        kind: LoadingErrorKind.blocked,
+        stage,
+        message: `The request to the ${sourceName} didn't complete. A browser plugin or firewall may be blocking it, ` +
+          `or the service may be unreachable.`,
+        detail: `no response from ${request}`,
+        time,
+      };
+    }
+
+    // A successful status with an error means the response body couldn't be parsed
+    if (error.status >= 200 && error.status < 300) {
+      const reason = error.error?.error?.message ?? error.message;
+      return {
+        kind: LoadingErrorKind.malformedData,
+        stage,
+        message: `The ${sourceName} sent a response this app couldn't read.`,
+        detail: `${error.status} from ${request}: ${reason}`,
+        time,
+      };
+    }
+
+    const hint = error.status >= 500 ? 'The service may be down, try again later.' :
+      'The service may have changed, or the request was refused.';
+    return {
+      kind: LoadingErrorKind.httpStatus,
+      stage,
+      message: `The ${sourceName} responded with an error (HTTP ${error.status} ${error.statusText}). ${hint}`,
+      detail: `${error.status} ${error.statusText} from ${request}`,
+      time,
+    };
+  }
+
+  // Anything else is a response we failed to make sense of
+  return {
+    kind: LoadingErrorKind.malformedData,
+    stage,
+    message: `The ${sourceName} sent a response this app couldn't read.`,
+    detail: String(error?.message ?? error),
+    time,
+  };
+}
+
+/* A single line describing a loading error, with a timestamp, that the user can paste into a support ticket */
+export function formatLoadingError(error: LoadingError): string {
+  return `${error.time.toISOString()} [${error.stage}] ${error.kind}: ${error.detail}`;
+}
@@ -0,0 +1,30 @@
+import { loadStored, newId, removeStored, saveStored } from './local-storage';
+
+describe('local storage helpers', () => {
+  const key = 'currency-converter.test';
+
+  afterEach(() => {
+    removeStored(key);
+  });
+
+  it('should make ids which start with the time they were made', () => {
+    expect(newId(Date.UTC(2020, 2, 2))).toMatch(/^k79p5hc0-[0-9a-z]+$/);
+    expect(newId()).not.toBe(newId());
+  });
+
+  it('should round trip what is stored, keeping only what is usable', () => {
+    expect(saveStored(key, {values: [1, 2]}, 'test values')).toBe(true);
+
+    expect(loadStored(key, 'test values', ({values}) => Array.isArray(values) ? values : null)).toEqual([1, 2]);
+    expect(loadStored(key, 'test values', ({other}) => other ?? null)).toBeNull();
+  });
+
+  it('should ignore entries that are missing or unreadable', () => {
+    expect(loadStored(key, 'test values', stored => stored)).toBeNull();
+
+    localStorage.setItem(key, '{not json');
+    spyOn(console, 'warn');
+    expect(loadStored(key, 'test values', stored => stored)).toBeNull();
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
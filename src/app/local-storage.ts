@@ -0,0 +1,42 @@
+/* Helpers for the services which keep the user's data (and cached rates) in `localStorage` */
+
+/* A practically unique id for something kept in storage (e.g. an alert), which sorts by when it was made */
+export function newId(time: number = Date.now()): string {
+  return `${time.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Reads the JSON stored under `key`, and passes it to `read` to pick out the parts that are usable (returning null if
+ * none are). Returns null if nothing is stored, or it can't be read (e.g. storage is disabled, or the entry is
+ * corrupted), logging why. `description` says what's stored, for the log.
+ */
+export function loadStored<T>(key: string, description: string, read: (stored: any) => T | null): T | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key));
+    return stored ? read(stored) : null;
+  } catch (e) {
+    console.warn(`ignoring unreadable ${description}`, e);
+    return null;
+  }
+}
+
+/**
+ * Stores `value` as JSON under `key`. Returns false if it couldn't be stored (e.g. storage is full or disabled), which
+ * is logged rather than thrown, as the data is still usable until the page is closed.
+ */
+export function saveStored(key: string, value: any, description: string): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (e) {
+    console.warn(`unable to store ${description}`, e);
+    return false;
+  }
+}
+
+export function removeStored(key: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch (e) {
+  }
+}
@@ -0,0 +1,85 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { MultiConversionComponent } from './multi-conversion.component';
+
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { RateCacheService } from '../rate-cache.service';
+import { fixtureRateProvider, provideRateProvider } from '../testing/fixture-rate-provider';
+
+describe('MultiConversionComponent', () => {
+  let component: MultiConversionComponent;
+  let fixture: ComponentFixture<MultiConversionComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        HttpClientTestingModule,
+      ],
+      providers: provideRateProvider(fixtureRateProvider()),
+      declarations: [ MultiConversionComponent ]
+    })
+    .compileComponents();
+    TestBed.inject(RateCacheService).clear('fixture');
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(MultiConversionComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    component.conversionService.stopBackgroundRefresh();
+    TestBed.inject(RateCacheService).clear('fixture');
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should convert an amount into every currency with rates on the date', () => {
+    component.dateControl.setValue(new Date(2020, 2, 3, 12));
+    component.amountControl.setValue('10,000');
+
+    expect(component.baseCurrencyControl.value.alphaCode).toBe('CAD');
+    // JPY is left out, as its rates end on 2020-03-02
+    expect(component.dataSource.data.map(row => [row.code, row.amount])).toEqual([
+      ['EUR', '6802.72'],
+      ['USD', '7518.80'],
+    ]);
+    expect(component.dataSource.data.map(row => row.rateDate.getDate())).toEqual([3, 3]);
+
+    component.dateControl.setValue(new Date(2020, 2, 2, 12));
+    expect(component.dataSource.data.map(row => row.code).sort()).toEqual(['EUR', 'JPY', 'USD']);
+  });
+
+  it('should show the date of the rate used for each currency', () => {
+    component.conversionService.storeRates({
+      base: 'CAD',
+      timeZone: 'America/Toronto',
+      quotation: 'direct',
+      observations: [
+        {date: '2020-03-02', rates: {USD: '1.3400', EUR: '1.4800'}},
+        {date: '2020-03-03', rates: {USD: '1.3300'}},
+        {date: '2020-03-04', rates: {USD: '1.3200', EUR: '1.4600'}},
+      ],
+    });
+    component.dateControl.setValue(new Date(2020, 2, 3, 12));
+    component.amountControl.setValue('100');
+
+    // EUR wasn't published on 2020-03-03, so the previous rate is used
+    expect(component.dataSource.data.map(row => [row.code, row.rateDate.getDate()])).toEqual([
+      ['EUR', 2],
+      ['USD', 3],
+    ]);
+  });
+
+  it('should filter the table by code or name', () => {
+    component.dateControl.setValue(new Date(2020, 2, 3, 12));
+    component.amountControl.setValue('100');
+    component.filterControl.setValue('dollar');
+
+    expect(component.dataSource.filteredData.map(row => row.code)).toEqual(['USD']);
+  });
+});
@@ -0,0 +1,223 @@
+import { Component, Inject, LOCALE_ID, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { FormControl } from '@angular/forms';
+import { MatSort } from '@angular/material/sort';
+import { MatTableDataSource } from '@angular/material/table';
+
+import { Subscription } from 'rxjs';
+
+import { CurrencyConversionService, RateAvailability } from '../currency-conversion.service';
+import { CurrencyMetadata } from '../currency-info.data';
+import { RateHistory } from '../rate-provider';
+import { AmountValidator } from '../amount-validator.directive';
+import { parseAmount } from '../amount-parser';
+import { LoadingError } from '../loading-error';
+
+import * as mtz from 'moment-timezone';
+
+/* One row of the table: the amount converted into one currency */
+export interface MultiConversionRow {
+  currency: CurrencyMetadata;
+  code: string;
+  name: string;
+  /* Converted amount, as a plain decimal string rounded to the currency's minor unit */
+  amount: string;
+  /* Format for the `currency` pipe, with as many decimal places as the currency's minor unit */
+  digits: string;
+  /* Rate for 1 unit of the base currency */
+  rate: string;
+  /*
+   * Date of the observation the rate came from. The provider may not have published on the date selected, and
+   * currencies with gaps in their series may fall back to rates from another date than the rest.
+   */
+  rateDate: Date;
+}
+
+/**
+ * Converts a single amount into every available currency at once (e.g. "what is 10,000 CAD in everything"), using
+ * rates from the date selected. The currencies are the same ones `CurrencyConversionComponent` offers, including those
+ * with rates for only part of the range: they're converted on the dates they have rates for, and on dates in gaps in
+ * their series the fallback policy decides which rate is used.
+ */
+@Component({
+  selector: 'app-multi-conversion',
+  templateUrl: './multi-conversion.component.html',
+  styleUrls: ['./multi-conversion.component.css'],
+})
+export class MultiConversionComponent implements OnInit, OnDestroy {
+  /* The table is only shown once rates are loaded, so sorting is hooked up when it appears */
+  @ViewChild(MatSort) set sort(sort: MatSort) {
+    this.dataSource.sort = sort;
+  }
+
+  /* Currency codes available from the rate provider (null until they've been fetched) */
+  codes: string[] | null = null;
+  /* Currencies with rates for at least some dates, and the range of dates each has rates for */
+  currencies: CurrencyMetadata[] = [];
+  availability = new Map<string, RateAvailability>();
+
+  /* Form controls for the amount to convert, and the currency it's in */
+  baseCurrencyControl = new FormControl(null);
+  amountControl = new FormControl(
+    '',
+    [AmountValidator(
+      this.locale,
+      () => this.baseCurrencyControl.value,
+      currency => this.conversionService.decimalPlaces(currency.alphaCode),
+    )]
+  );
+  /* Form control for the date of the rates */
+  dateControl = new FormControl(null);
+  /* used to limit range of selectable dates */
+  minDate: Date;
+  maxDate: Date;
+
+  /* Form control for text which filters the table by currency code or name */
+  filterControl = new FormControl('');
+
+  /* Conversions shown in the table */
+  dataSource = new MatTableDataSource<MultiConversionRow>([]);
+  displayedColumns = ['code', 'name', 'amount', 'rate', 'rateDate'];
+
+  /* Is data still being fetched from the rate provider? */
+  loading = true;
+  /* When loading fails, this describes what went wrong */
+  loadingError: LoadingError | null = null;
+
+  subscriptions: Subscription[] = [];
+  /* Rates may already be loaded by the converter, and may be refreshed in the background while this is shown */
+  ratesSubscription = Subscription.EMPTY;
+
+  constructor(
+    public conversionService: CurrencyConversionService,
+    @Inject(LOCALE_ID) private locale: string,
+  ) {
+    // Amounts are sorted by value rather than as text
+    this.dataSource.sortingDataAccessor = (row: MultiConversionRow, column: string) => {
+      return (column === 'amount' || column === 'rate') ? Number(row[column]) : row[column];
+    };
+    this.dataSource.filterPredicate = (row: MultiConversionRow, text: string) => {
+      return (row.code + ' ' + row.name).toLowerCase().includes(text);
+    };
+  }
+
+  ngOnInit(): void {
+
+    this.subscriptions.push(
+      this.baseCurrencyControl.valueChanges.subscribe(() => {
+        // The number of decimal places allowed in the amount depends on its currency
+        this.amountControl.updateValueAndValidity({emitEvent: false});
+        this.updateConversions();
+      })
+    );
+    this.subscriptions.push(this.amountControl.valueChanges.subscribe(() => this.updateConversions()));
+    this.subscriptions.push(this.dateControl.valueChanges.subscribe(() => this.updateConversions()));
+    this.subscriptions.push(
+      this.filterControl.valueChanges.subscribe((text: string) => {
+        this.dataSource.filter = text.trim().toLowerCase();
+      })
+    );
+
+    this.load();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.map((s) => s.unsubscribe());
+    this.subscriptions = [];
+    this.ratesSubscription.unsubscribe();
+  }
+
+  /* Fetch the available currencies, then watch the rates (fetching them unless they're already loaded) */
+  load(): void {
+    this.loading = true;
+    this.loadingError = null;
+
+    // (the currencies may be delivered right away, before `subscribe()` returns)
+    this.ratesSubscription.unsubscribe();
+    const subscription = new Subscription();
+    this.ratesSubscription = subscription;
+    subscription.add(this.conversionService.getAvailableConversions().subscribe({
+      next: codes => {
+        this.codes = codes;
+        subscription.add(this.conversionService.watchRates(
+          rates => this.loadAvailableRates(rates),
+          error => this.handleLoadingError(error),
+        ));
+      },
+      error: error => this.handleLoadingError(this.conversionService.reportLoadingError(error, 'fetchingCurrencies')),
+    }));
+  }
+
+  /* Handler for rates from the conversion service's rate store */
+  loadAvailableRates(rates: RateHistory): void {
+    this.availability = this.conversionService.rateAvailability(this.codes, rates);
+    this.currencies = this.conversionService.getAll().filter(currency => this.availability.has(currency.alphaCode));
+
+    this.minDate = mtz.tz(rates.observations[0].date + 'T00:00:00', rates.timeZone).toDate();
+    this.maxDate = mtz.utc().tz(rates.timeZone).startOf('day').toDate();
+
+    if (!this.currencies.includes(this.baseCurrencyControl.value)) {
+      this.baseCurrencyControl.setValue(
+        this.conversionService.getCurrencyMetadata(this.conversionService.baseCurrency), {emitEvent: false}
+      );
+    }
+    if (this.dateControl.value === null) {
+      this.dateControl.setValue(this.maxDate, {emitEvent: false});
+    }
+
+    this.loading = false;
+    this.updateConversions();
+  }
+
+  /* Convert the amount into every other currency, and show the results in the table */
+  updateConversions(): void {
+    const base: CurrencyMetadata | null = this.baseCurrencyControl.value;
+    const date: Date | null = this.dateControl.value;
+
+    if (this.loading || !base || !date || !this.amountControl.value || this.amountControl.invalid) {
+      this.dataSource.data = [];
+      return;
+    }
+
+    const amount = parseAmount(this.amountControl.value, this.locale);
+    const dateString = mtz(date).tz(this.conversionService.rates.timeZone).format('YYYY-MM-DD');
+    const rows: MultiConversionRow[] = [];
+
+    for (const currency of this.currencies) {
+      // Currencies are left out on dates before their series starts or after it ends
+      const range = this.availability.get(currency.alphaCode);
+      if (currency === base || dateString < range.start || dateString > range.end) {
+        continue;
+      }
+      const conversion = this.conversionService.convert(amount, base.alphaCode, currency.alphaCode, date);
+      const rate = this.conversionService.conversionRate(base.alphaCode, currency.alphaCode, date);
+      if (conversion === null || rate === null) {
+        continue;
+      }
+
+      const places = this.conversionService.decimalPlaces(currency.alphaCode);
+      rows.push({
+        currency,
+        code: currency.alphaCode,
+        name: currency.fullName,
+        amount: conversion[0],
+        digits: `1.${places}-${places}`,
+        rate: rate[0],
+        rateDate: conversion[1],
+      });
+    }
+
+    this.dataSource.data = rows;
+  }
+
+  /* Explains what's wrong with the amount */
+  get amountError(): string {
+    const errors = this.amountControl.errors ?? {};
+    return (errors.invalidAmount ?? errors.tooManyDecimalPlaces)?.message ?? '';
+  }
+
+  /* Handler for errors while fetching currencies or rates */
+  handleLoadingError(error: LoadingError): void {
+    this.loadingError = error;
+    this.loading = false;
+  }
+}
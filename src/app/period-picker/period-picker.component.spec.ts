@@ -0,0 +1,50 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormControl } from '@angular/forms';
+import { MatDateFormats, MAT_DATE_FORMATS } from '@angular/material/core';
+import { MatDatepicker } from '@angular/material/datepicker';
+
+import { PeriodPickerComponent } from './period-picker.component';
+
+describe('PeriodPickerComponent', () => {
+  let component: PeriodPickerComponent;
+  let fixture: ComponentFixture<PeriodPickerComponent>;
+  let picker: jasmine.SpyObj<MatDatepicker<Date>>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [ PeriodPickerComponent ]
+    })
+    .compileComponents();
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(PeriodPickerComponent);
+    component = fixture.componentInstance;
+    component.control = new FormControl(null);
+    picker = jasmine.createSpyObj('MatDatepicker', ['close']);
+  });
+
+  it('should pick the first day of a month', () => {
+    component.period = 'monthly';
+    component.ngOnChanges();
+
+    component.yearSelected(new Date(2020, 0, 1), picker);
+    expect(picker.close).not.toHaveBeenCalled();
+
+    component.monthSelected(new Date(2020, 2, 15), picker);
+    expect(component.control.value).toEqual(new Date(2020, 2, 1));
+    expect(picker.close).toHaveBeenCalled();
+  });
+
+  it('should pick a whole year, and show it as one', () => {
+    component.period = 'annual';
+    component.ngOnChanges();
+
+    component.yearSelected(new Date(2019, 5, 1), picker);
+    expect(component.control.value).toEqual(new Date(2019, 0, 1));
+    expect(picker.close).toHaveBeenCalled();
+
+    const formats: MatDateFormats = fixture.debugElement.injector.get(MAT_DATE_FORMATS);
+    expect(formats.display.dateInput).toEqual({year: 'numeric'});
+  });
+});
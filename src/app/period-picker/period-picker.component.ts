@@ -0,0 +1,54 @@
+import { Component, Inject, Input, OnChanges } from '@angular/core';
+import { FormControl } from '@angular/forms';
+import { MatDateFormats, MAT_DATE_FORMATS, MAT_NATIVE_DATE_FORMATS } from '@angular/material/core';
+import { MatDatepicker } from '@angular/material/datepicker';
+
+import { RatePeriod } from '../rate-provider';
+
+/* How a selected period is shown, e.g. "March 2020" or "2020" */
+const PERIOD_FORMATS: {[period in RatePeriod]: Intl.DateTimeFormatOptions} = {
+  monthly: {year: 'numeric', month: 'long'},
+  annual: {year: 'numeric'},
+};
+
+/**
+ * A datepicker for choosing a whole month or year rather than a day, for conversions at average rates. The control's
+ * value is the first day of the chosen period.
+ */
+@Component({
+  selector: 'app-period-picker',
+  templateUrl: './period-picker.component.html',
+  styleUrls: ['./period-picker.component.css'],
+  // Each picker shows its value in its own format, so it gets its own copy of the formats to change
+  providers: [
+    {provide: MAT_DATE_FORMATS, useFactory: () => ({...MAT_NATIVE_DATE_FORMATS, display: {...MAT_NATIVE_DATE_FORMATS.display}})},
+  ],
+})
+export class PeriodPickerComponent implements OnChanges {
+  @Input() period: RatePeriod = 'monthly';
+  @Input() control: FormControl;
+  /* Range of periods to choose from */
+  @Input() min: Date | null = null;
+  @Input() max: Date | null = null;
+
+  constructor(@Inject(MAT_DATE_FORMATS) private formats: MatDateFormats) { }
+
+  ngOnChanges(): void {
+    this.formats.display.dateInput = PERIOD_FORMATS[this.period];
+    // Show the current value in the new format
+    this.control?.setValue(this.control.value, {emitEvent: false});
+  }
+
+  /* A year picked in the calendar is the whole choice for annual periods, otherwise the months of the year follow */
+  yearSelected(year: Date, picker: MatDatepicker<Date>): void {
+    if (this.period === 'annual') {
+      this.control.setValue(new Date(year.getFullYear(), 0, 1));
+      picker.close();
+    }
+  }
+
+  monthSelected(month: Date, picker: MatDatepicker<Date>): void {
+    this.control.setValue(new Date(month.getFullYear(), month.getMonth(), 1));
+    picker.close();
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  bocNonPublicationDays, easterSunday, latestPublicationDate, nextPublicationTime, PublicationSchedule,
+  targetClosingDays, weekdaysExcept,
+} from './publication-calendar';
+
+describe('publication calendar', () => {
+  const boc: PublicationSchedule = {
+    timeZone: 'America/Toronto',
+    publicationHour: 16,
+    publicationMinute: 30,
+    isPublicationDay: weekdaysExcept(bocNonPublicationDays),
+  };
+
+  it('should find Easter Sunday', () => {
+    expect(easterSunday(2020).format('YYYY-MM-DD')).toBe('2020-04-12');
+    expect(easterSunday(2021).format('YYYY-MM-DD')).toBe('2021-04-04');
+    expect(easterSunday(2024).format('YYYY-MM-DD')).toBe('2024-03-31');
+  });
+
+  it('should list Bank of Canada holidays', () => {
+    expect(bocNonPublicationDays(2020)).toEqual([
+      '2020-01-01', '2020-02-17', '2020-04-10', '2020-05-18', '2020-07-01', '2020-08-03', '2020-09-07',
+      '2020-10-12', '2020-11-11', '2020-12-25', '2020-12-28',
+    ]);
+  });
+
+  it('should move weekend holidays to the following weekdays', () => {
+    // Christmas 2021 was a Saturday, Canada Day 2023 was a Saturday
+    const days = bocNonPublicationDays(2021);
+    expect(days).toContain('2021-12-27');
+    expect(days).toContain('2021-12-28');
+    expect(days).toContain('2021-09-30');
+    expect(bocNonPublicationDays(2023)).toContain('2023-07-03');
+  });
+
+  it('should list TARGET closing days', () => {
+    expect(targetClosingDays(2020)).toEqual([
+      '2020-01-01', '2020-04-10', '2020-04-13', '2020-05-01', '2020-12-25', '2020-12-26',
+    ]);
+  });
+
+  it('should skip weekends and holidays', () => {
+    expect(boc.isPublicationDay('2020-03-02')).toBeTrue();
+    expect(boc.isPublicationDay('2020-03-07')).toBeFalse();
+    expect(boc.isPublicationDay('2020-07-01')).toBeFalse();
+  });
+
+  it('should find the next publication time', () => {
+    // Before publication on a weekday, it's later the same day
+    expect(nextPublicationTime(boc, new Date(Date.UTC(2020, 2, 2, 15, 0))))
+      .toEqual(new Date(Date.UTC(2020, 2, 2, 21, 30)));
+    // Friday evening before a long weekend, it's Tuesday (Victoria Day 2020 was Monday the 18th)
+    expect(nextPublicationTime(boc, new Date(Date.UTC(2020, 4, 15, 22, 0))))
+      .toEqual(new Date(Date.UTC(2020, 4, 19, 20, 30)));
+  });
+
+  it('should find the latest publication date', () => {
+    // Monday morning, rates are from Friday
+    expect(latestPublicationDate(boc, new Date(Date.UTC(2020, 2, 2, 15, 0)))).toBe('2020-02-28');
+    // Monday evening, rates are from Monday
+    expect(latestPublicationDate(boc, new Date(Date.UTC(2020, 2, 2, 22, 0)))).toBe('2020-03-02');
+  });
+});
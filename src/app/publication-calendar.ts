@@ -0,0 +1,182 @@
+import * as mtz from 'moment-timezone';
+
+/**
+ * When a source of rates publishes them: on publication days, at a fixed time of day in the source's time zone.
+ */
+export interface PublicationSchedule {
+  /* Time zone the source publishes in */
+  readonly timeZone: string;
+  /* Time of day (in `timeZone`) after which the source has published the day's rates */
+  readonly publicationHour: number;
+  readonly publicationMinute: number;
+
+  /* Whether the source publishes rates on the given date (YYYY-MM-DD) */
+  isPublicationDay(date: string): boolean;
+}
+
+/* How far to search for a publication day before giving up (there's never a gap this long in practice) */
+const MAX_DAYS_BETWEEN_PUBLICATIONS = 31;
+
+function ymd(year: number, month: number, day: number): mtz.Moment {
+  return mtz.utc([year, month, day]);
+}
+
+function isWeekend(date: mtz.Moment): boolean {
+  return date.isoWeekday() >= 6;
+}
+
+/* The `n`th given ISO weekday (1 = Monday) of a month (0 = January) */
+function nthWeekday(year: number, month: number, isoWeekday: number, n: number): mtz.Moment {
+  const date = ymd(year, month, 1);
+  while (date.isoWeekday() !== isoWeekday) {
+    date.add(1, 'day');
+  }
+  return date.add(n - 1, 'weeks');
+}
+
+/* The last Monday strictly before a date */
+function mondayBefore(date: mtz.Moment): mtz.Moment {
+  const result = date.clone().subtract(1, 'day');
+  while (result.isoWeekday() !== 1) {
+    result.subtract(1, 'day');
+  }
+  return result;
+}
+
+/* Holidays that fall on a weekend are observed on the following Monday */
+function observed(date: mtz.Moment): mtz.Moment {
+  const result = date.clone();
+  while (isWeekend(result)) {
+    result.add(1, 'day');
+  }
+  return result;
+}
+
+/**
+ * Easter Sunday for a year in the Gregorian calendar (the "anonymous Gregorian algorithm")
+ */
+export function easterSunday(year: number): mtz.Moment {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return ymd(year, month - 1, day);
+}
+
+/**
+ * Weekdays in a year on which the Bank of Canada doesn't publish exchange rates (the Bank's holidays), as YYYY-MM-DD
+ */
+export function bocNonPublicationDays(year: number): string[] {
+  const christmas = observed(ymd(year, 11, 25));
+  // Boxing Day is observed on the next weekday after Christmas is observed
+  const boxingDay = observed(mtz.max(ymd(year, 11, 26), christmas.clone().add(1, 'day')));
+
+  const days = [
+    observed(ymd(year, 0, 1)),                  // New Year's Day
+    nthWeekday(year, 1, 1, 3),                  // Family Day, 3rd Monday in February
+    easterSunday(year).subtract(2, 'days'),     // Good Friday
+    mondayBefore(ymd(year, 4, 25)),             // Victoria Day
+    observed(ymd(year, 6, 1)),                  // Canada Day
+    nthWeekday(year, 7, 1, 1),                  // Civic Holiday, 1st Monday in August
+    nthWeekday(year, 8, 1, 1),                  // Labour Day, 1st Monday in September
+    nthWeekday(year, 9, 1, 2),                  // Thanksgiving, 2nd Monday in October
+    observed(ymd(year, 10, 11)),                // Remembrance Day
+    christmas,
+    boxingDay,
+  ];
+
+  // National Day for Truth and Reconciliation was first observed in 2021
+  if (year >= 2021) {
+    days.push(observed(ymd(year, 8, 30)));
+  }
+
+  return days.map(day => day.format('YYYY-MM-DD')).sort();
+}
+
+/**
+ * Days in a year on which TARGET2 is closed, so the European Central Bank doesn't publish reference rates, as
+ * YYYY-MM-DD (closing days aren't moved when they fall on a weekend)
+ */
+export function targetClosingDays(year: number): string[] {
+  const easter = easterSunday(year);
+
+  return [
+    ymd(year, 0, 1),                    // New Year's Day
+    easter.clone().subtract(2, 'days'), // Good Friday
+    easter.clone().add(1, 'day'),       // Easter Monday
+    ymd(year, 4, 1),                    // Labour Day
+    ymd(year, 11, 25),                  // Christmas Day
+    ymd(year, 11, 26),                  // Boxing Day
+  ].map(day => day.format('YYYY-MM-DD')).sort();
+}
+
+/**
+ * Builds an `isPublicationDay()` check for a source which publishes on weekdays, other than the holidays returned by
+ * `holidays(year)`. Holidays are only worked out once per year.
+ */
+export function weekdaysExcept(holidays: (year: number) => string[]): (date: string) => boolean {
+  const byYear = new Map<number, string[]>();
+
+  return (date: string): boolean => {
+    const day = mtz.utc(date, 'YYYY-MM-DD');
+    if (isWeekend(day)) {
+      return false;
+    }
+
+    if (!byYear.has(day.year())) {
+      byYear.set(day.year(), holidays(day.year()));
+    }
+    return !byYear.get(day.year()).includes(date);
+  };
+}
+
+/* The time on the given day (in the schedule's time zone) at which rates are published */
+function publicationTimeOn(schedule: PublicationSchedule, day: mtz.Moment): mtz.Moment {
+  return mtz.tz(day.format('YYYY-MM-DD'), schedule.timeZone)
+    .hour(schedule.publicationHour)
+    .minute(schedule.publicationMinute);
+}
+
+/**
+ * The next time (strictly after `after`) at which the source is expected to publish new rates.
+ */
+export function nextPublicationTime(schedule: PublicationSchedule, after: Date): Date {
+  const day = mtz(after).tz(schedule.timeZone).startOf('day');
+
+  for (let i = 0; i <= MAX_DAYS_BETWEEN_PUBLICATIONS; i++, day.add(1, 'day')) {
+    const publication = publicationTimeOn(schedule, day);
+    if (publication.isAfter(after) && schedule.isPublicationDay(day.format('YYYY-MM-DD'))) {
+      return publication.toDate();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The date (YYYY-MM-DD) of the most recent publication at or before `atOrBefore`. Rates for this date should already
+ * be available from the source.
+ */
+export function latestPublicationDate(schedule: PublicationSchedule, atOrBefore: Date): string | null {
+  const day = mtz(atOrBefore).tz(schedule.timeZone).startOf('day');
+
+  for (let i = 0; i <= MAX_DAYS_BETWEEN_PUBLICATIONS; i++, day.subtract(1, 'day')) {
+    const publication = publicationTimeOn(schedule, day);
+    if (publication.isSameOrBefore(atOrBefore) && schedule.isPublicationDay(day.format('YYYY-MM-DD'))) {
+      return day.format('YYYY-MM-DD');
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { AlertCondition, alertTriggers, describeTrigger, RateAlert, RateAlertsService } from './rate-alerts.service';
+import { CurrencyConversionService } from './currency-conversion.service';
+
+describe('rate alert triggers', () => {
+  const points = [
+    {date: '2020-03-02', rate: '1.34'},
+    {date: '2020-03-03', rate: '1.36'},
+    {date: '2020-03-04', rate: '1.37'},
+    {date: '2020-03-05', rate: '1.3426'},
+  ];
+  const alert = (condition: AlertCondition, threshold: string, checkedThrough: string | null = '2020-03-02'): RateAlert => ({
+    id: 'alert', providerId: 'boc', from: 'USD', to: 'CAD', condition, threshold, checkedThrough,
+  });
+
+  it('should trigger when a threshold is crossed, not while the rate stays past it', () => {
+    expect(alertTriggers(alert(AlertCondition.above, '1.35'), points).map(t => t.point.date)).toEqual(['2020-03-03']);
+    expect(alertTriggers(alert(AlertCondition.below, '1.35'), points).map(t => t.point.date)).toEqual(['2020-03-05']);
+    // Observations already checked are left alone
+    expect(alertTriggers(alert(AlertCondition.above, '1.35', '2020-03-03'), points)).toEqual([]);
+  });
+
+  it('should trigger on a move of more than a percentage day over day', () => {
+    const triggers = alertTriggers(alert(AlertCondition.change, '1'), points);
+
+    expect(triggers.map(t => t.point.date)).toEqual(['2020-03-03', '2020-03-05']);
+    expect(describeTrigger(alert(AlertCondition.change, '1'), triggers[1]))
+      .toBe('USD/CAD moved -2.00% day over day: 1.3426 on 2020-03-05 (from 1.37 on 2020-03-04)');
+    expect(describeTrigger(alert(AlertCondition.change, '1'), {point: points[0], previous: null}))
+      .toBe('USD/CAD moved more than 1% day over day: 1.34 on 2020-03-02');
+  });
+});
+
+describe('RateAlertsService', () => {
+  let service: RateAlertsService;
+  let conversionService: CurrencyConversionService;
+  let notification: jasmine.Spy;
+  const browserNotification = window.Notification;
+  const rates = (observations: [string, string][]) => ({
+    base: 'CAD',
+    timeZone: 'America/Toronto',
+    quotation: 'direct' as const,
+    observations: observations.map(([date, rate]) => ({date, rates: {USD: rate}})),
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+    });
+    conversionService = TestBed.inject(CurrencyConversionService);
+    service = TestBed.inject(RateAlertsService);
+    service.clear();
+
+    // Notifications are allowed, and shown through a stand-in for the browser's
+    notification = jasmine.createSpy('Notification');
+    window.Notification = Object.assign(notification, {permission: 'granted'}) as any;
+  });
+
+  afterEach(() => {
+    window.Notification = browserNotification;
+    service.clear();
+  });
+
+  it('should check alerts when new rates arrive, and keep what triggered them in the inbox', () => {
+    conversionService.storeRates(rates([['2020-03-02', '1.3400']]));
+    const added = service.add({providerId: 'boc', from: 'USD', to: 'CAD', condition: AlertCondition.above, threshold: '1.35'});
+    expect(added.checkedThrough).toBe('2020-03-02');
+
+    conversionService.storeRates(rates([['2020-03-02', '1.3400'], ['2020-03-03', '1.3600']]));
+    expect(service.inbox.map(entry => entry.message)).toEqual(['USD/CAD went above 1.35: 1.36 on 2020-03-03 (from 1.34 on 2020-03-02)']);
+    expect(service.unreadCount).toBe(1);
+    expect(notification).toHaveBeenCalledWith('Exchange rate alert', jasmine.objectContaining({body: service.inbox[0].message}));
+
+    // The same rates again (e.g. from the cache) don't trigger it twice
+    conversionService.storeRates(rates([['2020-03-02', '1.3400'], ['2020-03-03', '1.3600']]));
+    expect(service.inbox.length).toBe(1);
+    expect(notification).toHaveBeenCalledTimes(1);
+
+    service.markAllRead();
+    expect(service.unreadCount).toBe(0);
+    expect(JSON.parse(localStorage.getItem(service.key)).alerts[0].checkedThrough).toBe('2020-03-03');
+    conversionService.storeRates(null);
+  });
+});
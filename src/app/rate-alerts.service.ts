@@ -0,0 +1,276 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+import * as Big from 'big.js';
+
+import { CurrencyConversionService, RatePoint } from './currency-conversion.service';
+import { percentChange } from './decimal-conversion';
+import { loadStored, newId, saveStored } from './local-storage';
+
+/* What an alert watches the rate between two currencies for */
+export enum AlertCondition {
+  /* The rate rises above the threshold */
+  above = 'above',
+  /* The rate falls below the threshold */
+  below = 'below',
+  /* The rate moves more than the threshold (in percent) from one observation to the next */
+  change = 'change',
+}
+
+export const ALERT_CONDITIONS: {condition: AlertCondition, label: string}[] = [
+  {condition: AlertCondition.above, label: 'Goes above'},
+  {condition: AlertCondition.below, label: 'Goes below'},
+  {condition: AlertCondition.change, label: 'Moves more than (%) day over day'},
+];
+
+/* An alert on the rate for 1 unit of `from` in `to`, from one source of rates */
+export interface RateAlert {
+  id: string;
+  /* Source of the rates (a `RateProvider` id) */
+  providerId: string;
+  from: string;
+  to: string;
+  condition: AlertCondition;
+  /* A rate, or a percentage for `AlertCondition.change` (a decimal string) */
+  threshold: string;
+  /* Date (YYYY-MM-DD) of the newest observation the alert was checked against, so that each is only checked once */
+  checkedThrough: string | null;
+}
+
+/* What's saved for a new alert (it's checked from the rates loaded when it's added) */
+export type NewRateAlert = Omit<RateAlert, 'id' | 'checkedThrough'>;
+
+/* A triggered alert, as kept in the inbox */
+export interface AlertInboxEntry {
+  id: string;
+  alertId: string;
+  /* When the alert was triggered (ISO 8601) */
+  time: string;
+  /* Date (YYYY-MM-DD) of the observation that triggered it */
+  date: string;
+  message: string;
+  read: boolean;
+}
+
+/* The alerts, and the inbox of triggered alerts (newest first) */
+export interface RateAlerts {
+  alerts: RateAlert[];
+  inbox: AlertInboxEntry[];
+}
+
+/* An observation which triggers an alert, and the one before it (if any) */
+export interface AlertTrigger {
+  point: RatePoint;
+  previous: RatePoint | null;
+}
+
+/* Describes an alert, e.g. "USD/CAD goes above 1.40" */
+export function describeAlert(alert: RateAlert): string {
+  const pair = `${alert.from}/${alert.to}`;
+  switch (alert.condition) {
+    case AlertCondition.above:
+      return `${pair} goes above ${alert.threshold}`;
+    case AlertCondition.below:
+      return `${pair} goes below ${alert.threshold}`;
+    case AlertCondition.change:
+      return `${pair} moves more than ${alert.threshold}% day over day`;
+  }
+}
+
+/* Whether a rate (following the `previous` one) triggers an alert. Thresholds only trigger when they're crossed. */
+function isTriggered(alert: RateAlert, point: RatePoint, previous: RatePoint | null): boolean {
+  const rate = new Big(point.rate);
+  switch (alert.condition) {
+    case AlertCondition.above:
+      return rate.gt(alert.threshold) && (previous === null || new Big(previous.rate).lte(alert.threshold));
+    case AlertCondition.below:
+      return rate.lt(alert.threshold) && (previous === null || new Big(previous.rate).gte(alert.threshold));
+    case AlertCondition.change:
+      return previous !== null && new Big(percentChange(previous.rate, point.rate)).abs().gt(alert.threshold);
+  }
+}
+
+/**
+ * The observations which trigger an alert, out of the rates between its currencies (oldest first). Only the ones newer
+ * than the alert's `checkedThrough` date are checked.
+ */
+export function alertTriggers(alert: RateAlert, points: RatePoint[]): AlertTrigger[] {
+  const triggers: AlertTrigger[] = [];
+
+  points.forEach((point, i) => {
+    const previous = i > 0 ? points[i - 1] : null;
+    if ((alert.checkedThrough === null || point.date > alert.checkedThrough) && isTriggered(alert, point, previous)) {
+      triggers.push({point, previous});
+    }
+  });
+
+  return triggers;
+}
+
+/* Describes what triggered an alert, e.g. "USD/CAD went above 1.40: 1.4012 on 2020-03-09 (from 1.395 on 2020-03-06)" */
+export function describeTrigger(alert: RateAlert, trigger: AlertTrigger): string {
+  const pair = `${alert.from}/${alert.to}`;
+  const {point, previous} = trigger;
+  const rate = `${point.rate} on ${point.date}` + (previous ? ` (from ${previous.rate} on ${previous.date})` : '');
+
+  if (alert.condition === AlertCondition.change) {
+    // Changes are only triggered after another observation (see `isTriggered`), but without one there's no change to give
+    if (previous === null) {
+      return `${pair} moved more than ${alert.threshold}% day over day: ${rate}`;
+    }
+    const change = new Big(percentChange(previous.rate, point.rate)).toFixed(2);
+    return `${pair} moved ${change.startsWith('-') ? '' : '+'}${change}% day over day: ${rate}`;
+  }
+  return `${pair} went ${alert.condition} ${alert.threshold}: ${rate}`;
+}
+
+/**
+ * Keeps the user's rate alerts and the inbox of triggered alerts, persisted in `localStorage` so that they're kept
+ * across sessions.
+ *
+ * Alerts are checked whenever the conversion service's rate store gets new rates (when they're loaded, and when the
+ * background refresh fetches the provider's latest publication). Triggered alerts go to the inbox, and are also shown
+ * as browser notifications once the user has allowed them.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RateAlertsService {
+  readonly key = 'currency-converter.rate-alerts';
+  /* Inbox entries beyond this many are dropped, oldest first */
+  readonly maxInboxEntries = 100;
+
+  private alertsSubject = new BehaviorSubject<RateAlerts>(this.load());
+  alertsObs: Observable<RateAlerts> = this.alertsSubject.asObservable();
+
+  constructor(private conversionService: CurrencyConversionService) {
+    this.conversionService.ratesObs.pipe(filter(rates => rates !== null)).subscribe(() => this.check());
+  }
+
+  get alerts(): RateAlert[] {
+    return this.alertsSubject.value.alerts;
+  }
+
+  get inbox(): AlertInboxEntry[] {
+    return this.alertsSubject.value.inbox;
+  }
+
+  get unreadCount(): number {
+    return this.inbox.filter(entry => !entry.read).length;
+  }
+
+  /* Adds an alert. It's only triggered by rates published after the ones currently loaded. */
+  add(alert: NewRateAlert): RateAlert {
+    const added: RateAlert = {...alert, id: newId(), checkedThrough: this.latestDate(alert)};
+    this.save({...this.alertsSubject.value, alerts: [...this.alerts, added]});
+    return added;
+  }
+
+  remove(id: string): void {
+    this.save({...this.alertsSubject.value, alerts: this.alerts.filter(alert => alert.id !== id)});
+  }
+
+  markRead(id: string): void {
+    this.save({...this.alertsSubject.value, inbox: this.inbox.map(entry => entry.id === id ? {...entry, read: true} : entry)});
+  }
+
+  markAllRead(): void {
+    this.save({...this.alertsSubject.value, inbox: this.inbox.map(entry => ({...entry, read: true}))});
+  }
+
+  clearInbox(): void {
+    this.save({...this.alertsSubject.value, inbox: []});
+  }
+
+  /* Removes every alert, and empties the inbox */
+  clear(): void {
+    this.save({alerts: [], inbox: []});
+  }
+
+  /* The Notifications API permission ('granted', 'denied' or 'default'), or null if the browser doesn't support it */
+  get notificationPermission(): NotificationPermission | null {
+    return typeof window.Notification === 'undefined' ? null : window.Notification.permission;
+  }
+
+  /* Asks the user to allow notifications (browsers only ask in response to a click or key press) */
+  requestNotificationPermission(): void {
+    if (this.notificationPermission === 'default') {
+      window.Notification.requestPermission();
+    }
+  }
+
+  /* Checks the alerts on the current source of rates against any observations they haven't been checked against */
+  check(): void {
+    const providerId = this.conversionService.rateProvider.id;
+    const time = new Date().toISOString();
+    const triggered: AlertInboxEntry[] = [];
+    let changed = false;
+
+    const alerts = this.alerts.map(alert => {
+      const latest = this.latestDate(alert);
+      if (alert.providerId !== providerId || latest === null || (alert.checkedThrough !== null && latest <= alert.checkedThrough)) {
+        return alert;
+      }
+      changed = true;
+      if (alert.checkedThrough === null) {
+        // The alert was added before any rates for its currencies were loaded, so it starts from these
+        return {...alert, checkedThrough: latest};
+      }
+
+      const points = this.conversionService.conversionRateHistory(alert.from, alert.to);
+      for (const trigger of alertTriggers(alert, points)) {
+        triggered.unshift({
+          id: newId(),
+          alertId: alert.id,
+          time,
+          date: trigger.point.date,
+          message: describeTrigger(alert, trigger),
+          read: false,
+        });
+      }
+      return {...alert, checkedThrough: latest};
+    });
+
+    if (changed) {
+      const inbox = [...triggered, ...this.inbox].slice(0, this.maxInboxEntries);
+      this.save({alerts, inbox});
+      triggered.forEach(entry => this.notify(entry));
+    }
+  }
+
+  /* Shows a triggered alert as a browser notification, if the user has allowed them */
+  private notify(entry: AlertInboxEntry): void {
+    if (this.notificationPermission !== 'granted') {
+      return;
+    }
+    try {
+      const notification = new window.Notification('Exchange rate alert', {body: entry.message, tag: entry.id});
+      notification.onclick = () => window.focus();
+    } catch (e) {
+      // Some browsers (e.g. Chrome on Android) only show notifications through a service worker
+      console.warn('unable to show a notification', e);
+    }
+  }
+
+  /* Date (YYYY-MM-DD) of the newest rate for an alert's currencies, if they're from the current source of rates */
+  private latestDate(alert: NewRateAlert): string | null {
+    if (alert.providerId !== this.conversionService.rateProvider.id) {
+      return null;
+    }
+    const points = this.conversionService.conversionRateHistory(alert.from, alert.to);
+    return points.length ? points[points.length - 1].date : null;
+  }
+
+  private load(): RateAlerts {
+    const stored = loadStored(this.key, 'rate alerts', ({alerts, inbox}) => {
+      return Array.isArray(alerts) && Array.isArray(inbox) ? {alerts, inbox} : null;
+    });
+    return stored ?? {alerts: [], inbox: []};
+  }
+
+  private save(alerts: RateAlerts): void {
+    this.alertsSubject.next(alerts);
+    saveStored(this.key, alerts, 'rate alerts');
+  }
+}
@@ -0,0 +1,74 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { RateAlertsComponent } from './rate-alerts.component';
+
+import { CurrencyConversionService } from '../currency-conversion.service';
+import { AlertCondition, RateAlertsService } from '../rate-alerts.service';
+
+describe('RateAlertsComponent', () => {
+  let component: RateAlertsComponent;
+  let fixture: ComponentFixture<RateAlertsComponent>;
+  let alerts: RateAlertsService;
+  let conversionService: CurrencyConversionService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        HttpClientTestingModule,
+      ],
+      declarations: [ RateAlertsComponent ]
+    })
+    .compileComponents();
+
+    alerts = TestBed.inject(RateAlertsService);
+    alerts.clear();
+    conversionService = TestBed.inject(CurrencyConversionService);
+    conversionService.storeRates({
+      base: 'CAD',
+      timeZone: 'America/Toronto',
+      quotation: 'direct',
+      observations: [{date: '2020-03-02', rates: {USD: '1.3400'}}],
+    });
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(RateAlertsComponent);
+    component = fixture.componentInstance;
+    component.ngOnInit();
+  });
+
+  afterEach(() => {
+    component.ngOnDestroy();
+    alerts.clear();
+    conversionService.storeRates(null);
+  });
+
+  it('should offer the currencies with rates, against the base currency by default', () => {
+    expect(component.loading).toBe(false);
+    expect(component.currencies.map(currency => currency.alphaCode).sort()).toEqual(['CAD', 'USD']);
+    expect(component.form.value.to.alphaCode).toBe('CAD');
+  });
+
+  it('should add an alert, starting from the latest rate', () => {
+    const usd = component.currencies.find(currency => currency.alphaCode === 'USD');
+    component.form.patchValue({from: usd, condition: AlertCondition.above, threshold: '1.40'});
+    component.add();
+
+    expect(alerts.alerts.length).toBe(1);
+    expect(alerts.alerts[0]).toEqual(jasmine.objectContaining({
+      providerId: 'boc', from: 'USD', to: 'CAD', threshold: '1.40', checkedThrough: '2020-03-02',
+    }));
+    expect(component.describeAlert(alerts.alerts[0])).toBe('USD/CAD goes above 1.40');
+    expect(component.latestRate(alerts.alerts[0])).toEqual({date: '2020-03-02', rate: '1.34'});
+    expect(component.form.value.threshold).toBe('');
+  });
+
+  it('should not add an alert between a currency and itself', () => {
+    component.form.patchValue({from: component.form.value.to, threshold: '1'});
+    component.add();
+
+    expect(component.sameCurrencies).toBe(true);
+    expect(alerts.alerts).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import { Component, Inject, LOCALE_ID, OnDestroy, OnInit } from '@angular/core';
+import { FormControl, FormGroup, Validators } from '@angular/forms';
+
+import { Subscription } from 'rxjs';
+
+import { CurrencyConversionService, RatePoint } from '../currency-conversion.service';
+import { CurrencyMetadata } from '../currency-info.data';
+import { RateHistory } from '../rate-provider';
+import { AmountValidator } from '../amount-validator.directive';
+import { parseAmount } from '../amount-parser';
+import { LoadingError } from '../loading-error';
+import { ALERT_CONDITIONS, AlertCondition, describeAlert, RateAlert, RateAlertsService } from '../rate-alerts.service';
+
+/**
+ * Sets up alerts on exchange rates (e.g. "USD/CAD goes above 1.40"), and shows the inbox of triggered alerts. The
+ * alerts are checked by `RateAlertsService` whenever new rates are loaded, on whichever page is open.
+ */
+@Component({
+  selector: 'app-rate-alerts',
+  templateUrl: './rate-alerts.component.html',
+  styleUrls: ['./rate-alerts.component.css'],
+})
+export class RateAlertsComponent implements OnInit, OnDestroy {
+  /* Currencies with rates from the current source */
+  currencies: CurrencyMetadata[] = [];
+  conditions = ALERT_CONDITIONS;
+
+  /* Form for a new alert. The threshold is a rate, or a percentage for moves, written the way the locale writes numbers */
+  form = new FormGroup({
+    from: new FormControl(null, [Validators.required]),
+    to: new FormControl(null, [Validators.required]),
+    condition: new FormControl(AlertCondition.above),
+    threshold: new FormControl('', [Validators.required, AmountValidator(this.locale, () => null, () => 0)]),
+  });
+
+  /* Is data still being fetched from the rate provider? */
+  loading = true;
+  /* When loading fails, this describes what went wrong */
+  loadingError: LoadingError | null = null;
+
+  /* Rates may already be loaded by another page, and may be refreshed in the background while this is shown */
+  ratesSubscription = Subscription.EMPTY;
+
+  constructor(
+    public alerts: RateAlertsService,
+    public conversionService: CurrencyConversionService,
+    @Inject(LOCALE_ID) private locale: string,
+  ) { }
+
+  ngOnInit(): void {
+    this.load();
+  }
+
+  ngOnDestroy(): void {
+    this.ratesSubscription.unsubscribe();
+  }
+
+  /* Watch the rates, fetching them unless they're already loaded */
+  load(): void {
+    this.loading = true;
+    this.loadingError = null;
+
+    this.ratesSubscription.unsubscribe();
+    this.ratesSubscription = this.conversionService.watchRates(
+      rates => this.loadCurrencies(rates),
+      error => {
+        this.loadingError = error;
+        this.loading = false;
+      },
+    );
+  }
+
+  /* Handler for rates from the conversion service's rate store */
+  loadCurrencies(rates: RateHistory): void {
+    const all = this.conversionService.getAll();
+    const availability = this.conversionService.rateAvailability(all.map(currency => currency.alphaCode), rates);
+    this.currencies = all.filter(currency => availability.has(currency.alphaCode));
+
+    // Most alerts are on a rate against the base currency (e.g. USD/CAD), so it's selected by default
+    if (!this.currencies.includes(this.form.value.to)) {
+      this.form.patchValue({to: this.conversionService.getCurrencyMetadata(rates.base)});
+    }
+    this.loading = false;
+  }
+
+  /* Are the same currency selected on both sides? */
+  get sameCurrencies(): boolean {
+    return this.form.value.from !== null && this.form.value.from === this.form.value.to;
+  }
+
+  /* Adds the alert in the form, and asks to show notifications for it (if the user hasn't been asked yet) */
+  add(): void {
+    if (this.form.invalid || this.sameCurrencies) {
+      return;
+    }
+
+    const value = this.form.value;
+    this.alerts.add({
+      providerId: this.conversionService.rateProvider.id,
+      from: value.from.alphaCode,
+      to: value.to.alphaCode,
+      condition: value.condition,
+      threshold: parseAmount(value.threshold, this.locale),
+    });
+    this.alerts.requestNotificationPermission();
+    this.form.get('threshold').reset('');
+  }
+
+  describeAlert(alert: RateAlert): string {
+    return describeAlert(alert);
+  }
+
+  /* The latest rate an alert was checked against, if it's on the current source of rates */
+  latestRate(alert: RateAlert): RatePoint | null {
+    if (alert.providerId !== this.conversionService.rateProvider.id) {
+      return null;
+    }
+    const points = this.conversionService.conversionRateHistory(alert.from, alert.to);
+    return points.length ? points[points.length - 1] : null;
+  }
+
+  /* The name of the source of rates an alert is on */
+  providerName(alert: RateAlert): string {
+    return this.conversionService.providers.find(provider => provider.id === alert.providerId)?.name ?? alert.providerId;
+  }
+
+  /* Explains what's wrong with the threshold */
+  get thresholdError(): string {
+    const errors = this.form.get('threshold').errors ?? {};
+    return errors.invalidAmount?.message ?? 'Enter a rate, or a percentage for moves';
+  }
+}
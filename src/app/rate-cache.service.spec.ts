@@ -0,0 +1,74 @@
+import { TestBed } from '@angular/core/testing';
+
+import { historyChanged, mergeRateHistory, RateCacheService } from './rate-cache.service';
+import { RateHistory } from './rate-provider';
+
+const CACHED: RateHistory = {
+  base: 'CAD',
+  timeZone: 'America/Toronto',
+  quotation: 'direct',
+  observations: [
+    {date: '2020-03-02', rates: {USD: '1.3400'}},
+    {date: '2020-03-03', rates: {USD: '1.3300'}},
+  ],
+};
+
+describe('mergeRateHistory', () => {
+  it('should append new observations in date order', () => {
+    const merged = mergeRateHistory(CACHED, {
+      ...CACHED,
+      observations: [{date: '2020-03-04', rates: {USD: '1.3350'}}],
+    });
+
+    expect(merged.observations.map(o => o.date)).toEqual(['2020-03-02', '2020-03-03', '2020-03-04']);
+  });
+
+  it('should prefer fetched observations over cached ones', () => {
+    const merged = mergeRateHistory(CACHED, {
+      ...CACHED,
+      observations: [{date: '2020-03-03', rates: {USD: '1.3310'}}],
+    });
+
+    expect(merged.observations.length).toBe(2);
+    expect(merged.observations[1].rates.USD).toBe('1.3310');
+  });
+});
+
+describe('historyChanged', () => {
+  it('should only count new observations as a change', () => {
+    expect(historyChanged(null, CACHED)).toBe(true);
+    expect(historyChanged(CACHED, {...CACHED, observations: [...CACHED.observations]})).toBe(false);
+    expect(historyChanged(CACHED, mergeRateHistory(CACHED, {
+      ...CACHED,
+      observations: [{date: '2020-03-04', rates: {USD: '1.3350'}}],
+    }))).toBe(true);
+  });
+});
+
+describe('RateCacheService', () => {
+  let cache: RateCacheService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    cache = TestBed.inject(RateCacheService);
+    cache.clear('test');
+  });
+
+  afterEach(() => {
+    cache.clear('test');
+  });
+
+  it('should return null when nothing is cached', () => {
+    expect(cache.load('test')).toBeNull();
+  });
+
+  it('should round trip a history', () => {
+    cache.save('test', CACHED);
+    expect(cache.load('test')).toEqual(CACHED);
+  });
+
+  it('should ignore entries from another cache version', () => {
+    localStorage.setItem(cache.keyPrefix + 'test', JSON.stringify({version: cache.version + 1, history: CACHED}));
+    expect(cache.load('test')).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { Injectable } from '@angular/core';
+
+import { RateHistory, RateObservation } from './rate-provider';
+import { validateRateHistory } from './rate-validation';
+import { loadStored, removeStored, saveStored } from './local-storage';
+
+/**
+ * Combines cached observations with newly fetched ones. Where both have an observation for the same date, the newly
+ * fetched observation wins. Observations are returned ordered from oldest to newest.
+ */
+export function mergeRateHistory(cached: RateHistory, update: RateHistory): RateHistory {
+  const byDate = new Map<string, RateObservation>();
+
+  for (const observation of [...cached.observations, ...update.observations]) {
+    byDate.set(observation.date, observation);
+  }
+
+  return {
+    ...update,
+    observations: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+/**
+ * Does `update` have anything `previous` doesn't, i.e. more observations, or a newer latest observation? A history is
+ * always new when there was none before.
+ */
+export function historyChanged(previous: RateHistory | null, update: RateHistory): boolean {
+  if (previous === null || previous.observations.length !== update.observations.length) {
+    return true;
+  }
+
+  const newest = (history: RateHistory) => history.observations[history.observations.length - 1]?.date;
+  return newest(previous) !== newest(update);
+}
+
+/**
+ * Persists rate histories in `localStorage` (one entry per rate provider), so that repeat visits only need to fetch
+ * the observations published since the last visit.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RateCacheService {
+  /* Bump this whenever the shape of `RateHistory` changes, so that stale entries are ignored */
+  readonly version = 1;
+  readonly keyPrefix = 'currency-converter.rates.';
+
+  /**
+   * Returns the cached history for the given provider, or null if nothing usable is cached.
+   */
+  load(providerId: string): RateHistory | null {
+    return loadStored(this.keyPrefix + providerId, 'rate cache', ({version, history}) => {
+      return version === this.version ? validateRateHistory(history) : null;
+    });
+  }
+
+  /**
+   * Caches the history for the given provider. If it can't be stored (e.g. storage is full or disabled) the cache is
+   * simply skipped, and the full history will be fetched again next time.
+   */
+  save(providerId: string, history: RateHistory): void {
+    if (!saveStored(this.keyPrefix + providerId, {version: this.version, history}, 'rate cache')) {
+      this.clear(providerId);
+    }
+  }
+
+  clear(providerId: string): void {
+    removeStored(this.keyPrefix + providerId);
+  }
+}
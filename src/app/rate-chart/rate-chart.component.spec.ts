@@ -0,0 +1,62 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { RateChartComponent } from './rate-chart.component';
+import { RatePoint } from '../currency-conversion.service';
+
+describe('RateChartComponent', () => {
+  let component: RateChartComponent;
+  let fixture: ComponentFixture<RateChartComponent>;
+
+  // A rate for every day of 2020
+  const points: RatePoint[] = Array.from({length: 366}, (_, i) => ({
+    date: new Date(Date.UTC(2020, 0, 1 + i)).toISOString().slice(0, 10),
+    rate: (1.3 + i / 10000).toFixed(4),
+  }));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [ RateChartComponent ]
+    })
+    .compileComponents();
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(RateChartComponent);
+    component = fixture.componentInstance;
+    component.points = points;
+    component.from = 'USD';
+    component.to = 'CAD';
+    component.ngOnChanges();
+    fixture.detectChanges();
+  });
+
+  it('should plot every point by default', () => {
+    expect(component.activePreset).toBe('All');
+    expect(component.plotted.length).toBe(366);
+    expect(component.path.startsWith('M')).toBeTrue();
+  });
+
+  it('should limit the range to a preset', () => {
+    component.applyPreset('1M');
+    expect(component.plotted[0].point.date).toBe('2020-11-30');
+    expect(component.plotted[component.plotted.length - 1].point.date).toBe('2020-12-31');
+  });
+
+  it('should zoom in around a date, but not further than a week', () => {
+    const june = Date.parse('2020-06-15T00:00:00Z');
+    component.setRange(june, june + 24 * 60 * 60 * 1000);
+    expect(component.activePreset).toBeNull();
+    expect(component.plotted.length).toBe(8);
+  });
+
+  it('should emit the date of the point clicked', () => {
+    let selected: string | null = null;
+    component.dateSelected.subscribe((date: string) => selected = date);
+    const svg = fixture.nativeElement.querySelector('svg');
+    spyOn(svg, 'getBoundingClientRect').and.returnValue({left: 0, width: component.width} as DOMRect);
+
+    // The right edge of the plot is the last date
+    svg.dispatchEvent(new MouseEvent('click', {clientX: component.width - component.margin.right}));
+    expect(selected).toBe('2020-12-31');
+  });
+});
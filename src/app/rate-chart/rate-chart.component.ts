@@ -0,0 +1,217 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+
+import { RatePoint } from '../currency-conversion.service';
+
+import * as mtz from 'moment-timezone';
+
+/* A point of the chart, positioned in the SVG's coordinates */
+interface PlottedPoint {
+  point: RatePoint;
+  x: number;
+  y: number;
+}
+
+/* Presets for the range of dates shown, counted back from the latest observation */
+export const RANGE_PRESETS: {label: string, months: number | null}[] = [
+  {label: '1M', months: 1},
+  {label: '6M', months: 6},
+  {label: '1Y', months: 12},
+  {label: 'All', months: null},
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/* Timestamp for a YYYY-MM-DD date (the time zone doesn't matter, as dates are only compared to each other) */
+function dateTime(date: string): number {
+  return Date.parse(date + 'T00:00:00Z');
+}
+
+/**
+ * Line chart of the rate between two currencies over time. The range of dates can be picked from presets, or zoomed
+ * with the mouse wheel. Hovering shows the exact observation nearest the pointer, and clicking emits its date through
+ * `dateSelected`.
+ *
+ * The chart is drawn as an SVG by this component, so that it can follow the app's theme without another dependency.
+ */
+@Component({
+  selector: 'app-rate-chart',
+  templateUrl: './rate-chart.component.html',
+  styleUrls: ['./rate-chart.component.css'],
+})
+export class RateChartComponent implements OnChanges {
+  /* Rates to plot, oldest first */
+  @Input() points: RatePoint[] = [];
+  /* The pair of currencies the rates convert between */
+  @Input() from = '';
+  @Input() to = '';
+  /* Date (YYYY-MM-DD) to mark on the chart, e.g. the date of the current conversion */
+  @Input() selectedDate: string | null = null;
+  /* Emits the date (YYYY-MM-DD) of a point when it's clicked */
+  @Output() dateSelected = new EventEmitter<string>();
+
+  /* Size of the chart in SVG units (it's scaled to fit its container), and the space around the plot for the axes */
+  width = 640;
+  height = 240;
+  margin = {top: 12, right: 12, bottom: 24, left: 56};
+
+  presets = RANGE_PRESETS;
+  /* The preset currently shown, or null after zooming */
+  activePreset: string | null = 'All';
+  /* Time range (timestamps) of the dates shown */
+  rangeStart = 0;
+  rangeEnd = 0;
+
+  /* Points in the range shown, positioned in the chart */
+  plotted: PlottedPoint[] = [];
+  /* SVG path for the line through `plotted` */
+  path = '';
+  /* Labels along each axis, positioned in the chart */
+  xTicks: {x: number, label: string}[] = [];
+  yTicks: {y: number, label: string}[] = [];
+  /* Point nearest the pointer, shown in the tooltip */
+  hovered: PlottedPoint | null = null;
+  /* Position of `selectedDate` along the x axis, if it's in the range shown */
+  selectedX: number | null = null;
+
+  ngOnChanges(): void {
+    if (this.activePreset !== null) {
+      this.applyPreset(this.activePreset);
+    } else {
+      // Keep the zoomed range, as long as it still overlaps the data
+      this.setRange(this.rangeStart, this.rangeEnd);
+    }
+  }
+
+  /* Show one of the `RANGE_PRESETS` */
+  applyPreset(label: string): void {
+    const preset = this.presets.find(p => p.label === label);
+    if (!preset || this.points.length === 0) {
+      this.activePreset = label;
+      this.plot();
+      return;
+    }
+
+    const first = dateTime(this.points[0].date);
+    const last = dateTime(this.points[this.points.length - 1].date);
+    const start = preset.months === null ? first :
+      mtz.utc(last).subtract(preset.months, 'months').valueOf();
+
+    this.setRange(start, last);
+    this.activePreset = label;
+  }
+
+  /* Show the given time range, limited to the dates there's data for */
+  setRange(start: number, end: number): void {
+    this.activePreset = null;
+    if (this.points.length > 0) {
+      const first = dateTime(this.points[0].date);
+      const last = dateTime(this.points[this.points.length - 1].date);
+      // Never zoom in further than a week
+      const span = Math.min(Math.max(end - start, 7 * DAY), last - first);
+      start = Math.max(first, Math.min(start, last - span));
+      end = Math.min(last, start + span);
+    }
+    this.rangeStart = start;
+    this.rangeEnd = end;
+    this.plot();
+  }
+
+  /* Zoom in (or out) around the date under the pointer */
+  handleWheel(event: WheelEvent): void {
+    if (this.plotted.length === 0) {
+      return;
+    }
+    event.preventDefault();
+
+    const factor = event.deltaY < 0 ? 0.8 : 1.25;
+    const center = this.timeAt(this.pointerX(event));
+    this.setRange(
+      center - (center - this.rangeStart) * factor,
+      center + (this.rangeEnd - center) * factor,
+    );
+  }
+
+  /* Show the observation nearest the pointer */
+  handlePointerMove(event: MouseEvent): void {
+    const x = this.pointerX(event);
+    this.hovered = this.plotted.reduce((nearest, p) => {
+      return (nearest === null || Math.abs(p.x - x) < Math.abs(nearest.x - x)) ? p : nearest;
+    }, null as PlottedPoint | null);
+  }
+
+  handlePointerLeave(): void {
+    this.hovered = null;
+  }
+
+  /* Clicking selects the date of the observation under the pointer */
+  handleClick(event: MouseEvent): void {
+    this.handlePointerMove(event);
+    if (this.hovered) {
+      this.dateSelected.emit(this.hovered.point.date);
+    }
+  }
+
+  /* Position of the pointer along the x axis in SVG units (the SVG is scaled to fit its container) */
+  private pointerX(event: MouseEvent): number {
+    const bounds = (event.currentTarget as Element).getBoundingClientRect();
+    return bounds.width > 0 ? (event.clientX - bounds.left) * this.width / bounds.width : 0;
+  }
+
+  /* The time at a position along the x axis */
+  private timeAt(x: number): number {
+    const plotWidth = this.width - this.margin.left - this.margin.right;
+    const fraction = Math.min(Math.max((x - this.margin.left) / plotWidth, 0), 1);
+    return this.rangeStart + fraction * (this.rangeEnd - this.rangeStart);
+  }
+
+  /* Position the points in the current range, and work out the axes */
+  private plot(): void {
+    const visible = this.points.filter(p => {
+      const time = dateTime(p.date);
+      return time >= this.rangeStart && time <= this.rangeEnd;
+    });
+    this.hovered = null;
+
+    if (visible.length === 0) {
+      this.plotted = [];
+      this.path = '';
+      this.xTicks = [];
+      this.yTicks = [];
+      this.selectedX = null;
+      return;
+    }
+
+    const rates = visible.map(p => Number(p.rate));
+    let low = Math.min(...rates);
+    let high = Math.max(...rates);
+    // Leave some space above and below the line (and give a flat line some height)
+    const pad = (high - low) * 0.05 || high * 0.01 || 1;
+    low -= pad;
+    high += pad;
+
+    const left = this.margin.left;
+    const right = this.width - this.margin.right;
+    const top = this.margin.top;
+    const bottom = this.height - this.margin.bottom;
+    const timeSpan = Math.max(this.rangeEnd - this.rangeStart, 1);
+    const xOf = (time: number) => left + (time - this.rangeStart) / timeSpan * (right - left);
+    const yOf = (rate: number) => bottom - (rate - low) / (high - low) * (bottom - top);
+
+    this.plotted = visible.map((point, i) => ({point, x: xOf(dateTime(point.date)), y: yOf(rates[i])}));
+    this.path = this.plotted.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ');
+
+    const ticks = 5;
+    const shortRange = this.rangeEnd - this.rangeStart < 93 * DAY;
+    this.xTicks = [];
+    this.yTicks = [];
+    for (let i = 0; i < ticks; i++) {
+      const time = this.rangeStart + i * (this.rangeEnd - this.rangeStart) / (ticks - 1);
+      this.xTicks.push({x: xOf(time), label: mtz.utc(time).format(shortRange ? 'MMM D' : 'MMM YYYY')});
+      const rate = low + i * (high - low) / (ticks - 1);
+      this.yTicks.push({y: yOf(rate), label: rate.toPrecision(4)});
+    }
+
+    const selected = this.selectedDate ? dateTime(this.selectedDate) : null;
+    this.selectedX = (selected !== null && selected >= this.rangeStart && selected <= this.rangeEnd) ? xOf(selected) : null;
+  }
+}
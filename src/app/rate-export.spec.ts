@@ -0,0 +1,26 @@
+import { RateExportRow, rateExportJson, rateExportSheet, rateExportTable } from './rate-export';
+
+describe('rate export', () => {
+  const rows: RateExportRow[] = [
+    {date: '2020-03-02', seriesId: 'FXUSDCAD', currency: 'USD', base: 'CAD', rate: '1.34', inverseRate: '0.7462686567'},
+  ];
+
+  it('should make a table with a header row', () => {
+    expect(rateExportTable(rows)).toEqual([
+      ['date', 'series_id', 'currency', 'base', 'rate', 'inverse_rate'],
+      ['2020-03-02', 'FXUSDCAD', 'USD', 'CAD', '1.34', '0.7462686567'],
+    ]);
+  });
+
+  it('should make a sheet with numeric rates', () => {
+    expect(rateExportSheet(rows)[1]).toEqual(['2020-03-02', 'FXUSDCAD', 'USD', 'CAD', 1.34, 0.7462686567]);
+  });
+
+  it('should include the source in JSON', () => {
+    expect(JSON.parse(rateExportJson(rows, 'Bank of Canada', 'America/Toronto'))).toEqual({
+      source: 'Bank of Canada',
+      timeZone: 'America/Toronto',
+      observations: rows,
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { XlsxCell } from './xlsx';
+
+/* Formats the loaded rates can be exported in */
+export type RateExportFormat = 'csv' | 'json' | 'xlsx';
+
+/* A currency's rate on one date, as exported */
+export interface RateExportRow {
+  /* YYYY-MM-DD, in the provider's time zone */
+  date: string;
+  /* The provider's identifier for the series (e.g. 'FXUSDCAD') */
+  seriesId: string;
+  currency: string;
+  base: string;
+  /* Value of 1 unit of the currency in the base currency */
+  rate: string;
+  /* Amount of the currency that 1 unit of the base currency buys */
+  inverseRate: string;
+}
+
+/* Column headers of exported tables */
+export const RATE_EXPORT_COLUMNS = ['date', 'series_id', 'currency', 'base', 'rate', 'inverse_rate'];
+
+/* Exported rows as a table of text (e.g. for CSV), with a header row */
+export function rateExportTable(rows: RateExportRow[]): string[][] {
+  return [
+    RATE_EXPORT_COLUMNS,
+    ...rows.map(row => [row.date, row.seriesId, row.currency, row.base, row.rate, row.inverseRate]),
+  ];
+}
+
+/* Exported rows as a spreadsheet, with a header row and the rates as numbers */
+export function rateExportSheet(rows: RateExportRow[]): XlsxCell[][] {
+  return [
+    RATE_EXPORT_COLUMNS,
+    ...rows.map(row => [row.date, row.seriesId, row.currency, row.base, Number(row.rate), Number(row.inverseRate)]),
+  ];
+}
+
+/* Exported rows as JSON, along with where they came from */
+export function rateExportJson(rows: RateExportRow[], source: string, timeZone: string): string {
+  return JSON.stringify({source, timeZone, observations: rows}, null, 2);
+}
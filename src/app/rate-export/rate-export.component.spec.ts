@@ -0,0 +1,88 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { RateExportComponent } from './rate-export.component';
+
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { CurrencyConversionService } from '../currency-conversion.service';
+
+describe('RateExportComponent', () => {
+  let component: RateExportComponent;
+  let fixture: ComponentFixture<RateExportComponent>;
+  let service: CurrencyConversionService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        HttpClientTestingModule,
+      ],
+      declarations: [ RateExportComponent ]
+    })
+    .compileComponents();
+
+    service = TestBed.inject(CurrencyConversionService);
+    service.storeRates({
+      base: 'CAD',
+      timeZone: 'America/Toronto',
+      quotation: 'direct',
+      observations: [
+        {date: '2020-03-02', rates: {USD: '1.3400', EUR: '1.4800'}},
+        {date: '2020-03-03', rates: {USD: '1.3300', EUR: '1.4700'}},
+      ],
+    });
+  });
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(RateExportComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should export every date and currency by default when none are selected', () => {
+    fixture.detectChanges();
+
+    expect(component.scopeControl.value).toBe('all');
+    expect(component.rangeGroup.value.start.getDate()).toBe(2);
+    expect(component.rangeGroup.value.end.getDate()).toBe(3);
+  });
+
+  it('should only export the selected currencies that have rates', () => {
+    component.from = 'CAD';
+    component.to = 'USD';
+    fixture.detectChanges();
+
+    expect(component.scopeControl.value).toBe('selected');
+    expect(component.selectedCodes).toEqual(['USD']);
+  });
+
+  it('should follow the selection, and extend the default range to rates loaded later', () => {
+    fixture.detectChanges();
+    component.from = 'USD';
+    component.ngOnChanges();
+    expect(component.scopeControl.value).toBe('selected');
+
+    service.storeRates({
+      ...service.rates,
+      observations: [...service.rates.observations, {date: '2020-03-04', rates: {USD: '1.3200', EUR: '1.4600'}}],
+    });
+    expect(component.maxDate.getDate()).toBe(4);
+    expect(component.rangeGroup.value.end.getDate()).toBe(4);
+
+    // A range the user picked is kept
+    component.rangeGroup.setValue({start: new Date(2020, 2, 3), end: new Date(2020, 2, 3)});
+    service.storeRates({
+      ...service.rates,
+      observations: [...service.rates.observations, {date: '2020-03-05', rates: {USD: '1.3100', EUR: '1.4500'}}],
+    });
+    expect(component.maxDate.getDate()).toBe(5);
+    expect(component.rangeGroup.value.end.getDate()).toBe(3);
+    component.ngOnDestroy();
+  });
+
+  it('should say when there are no rates to export', () => {
+    fixture.detectChanges();
+    component.rangeGroup.setValue({start: new Date(2020, 2, 4), end: new Date(2020, 2, 5)});
+    component.export();
+
+    expect(component.message).toBe('There are no rates to export from 2020-03-04 to 2020-03-05');
+  });
+});
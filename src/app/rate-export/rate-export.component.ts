@@ -0,0 +1,140 @@
+import { Component, Input, OnChanges, OnDestroy, OnInit } from '@angular/core';
+import { FormControl, FormGroup } from '@angular/forms';
+
+import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+import { CurrencyConversionService } from '../currency-conversion.service';
+import { RateHistory } from '../rate-provider';
+import { RateExportFormat, rateExportJson, rateExportSheet, rateExportTable } from '../rate-export';
+import { formatCsv } from '../csv';
+import { createXlsx, XLSX_MIME_TYPE } from '../xlsx';
+import { downloadFile } from '../download';
+
+import * as mtz from 'moment-timezone';
+
+/**
+ * Exports the loaded rates (the same normalized observations conversions use) as CSV, JSON or an Excel workbook, for
+ * either the currencies selected in the converter or every currency, over a range of dates.
+ */
+@Component({
+  selector: 'app-rate-export',
+  templateUrl: './rate-export.component.html',
+  styleUrls: ['./rate-export.component.css'],
+})
+export class RateExportComponent implements OnInit, OnChanges, OnDestroy {
+  /* Currencies selected in the converter (alpha codes), or null */
+  @Input() from: string | null = null;
+  @Input() to: string | null = null;
+
+  formats: {format: RateExportFormat, label: string}[] = [
+    {format: 'csv', label: 'CSV'},
+    {format: 'json', label: 'JSON'},
+    {format: 'xlsx', label: 'Excel (XLSX)'},
+  ];
+
+  /* Form controls for what's exported, and how */
+  scopeControl = new FormControl('selected');
+  rangeGroup = new FormGroup({
+    start: new FormControl(null),
+    end: new FormControl(null),
+  });
+  formatControl = new FormControl('csv');
+
+  /* Range of dates with rates */
+  minDate: Date;
+  maxDate: Date;
+
+  /* Shown when there's nothing to export */
+  message: string | null = null;
+  /* Is an export being generated? */
+  exporting = false;
+
+  /* Rates may be refreshed in the background while this is shown */
+  ratesSubscription = Subscription.EMPTY;
+
+  constructor(private conversionService: CurrencyConversionService) { }
+
+  ngOnInit(): void {
+    this.selectDefaultScope();
+    this.ratesSubscription = this.conversionService.ratesObs.pipe(filter(rates => rates !== null))
+      .subscribe(rates => this.loadRates(rates));
+  }
+
+  ngOnChanges(): void {
+    this.selectDefaultScope();
+  }
+
+  ngOnDestroy(): void {
+    this.ratesSubscription.unsubscribe();
+  }
+
+  /* The selected currencies are exported by default, or every currency when none are selected */
+  selectDefaultScope(): void {
+    this.scopeControl.setValue(this.selectedCodes.length ? 'selected' : 'all');
+  }
+
+  /* Handler for rates from the conversion service's rate store */
+  loadRates(rates: RateHistory): void {
+    // Everything loaded is exported by default, including newer rates, unless the user has picked another range
+    const range = this.rangeGroup.value;
+    const wholeRange = range.start?.getTime() === this.minDate?.getTime() && range.end?.getTime() === this.maxDate?.getTime();
+
+    const observations = rates.observations;
+    this.minDate = mtz(observations[0].date).toDate();
+    this.maxDate = mtz(observations[observations.length - 1].date).toDate();
+    if (wholeRange) {
+      this.rangeGroup.setValue({start: this.minDate, end: this.maxDate});
+    }
+  }
+
+  /* The selected currencies that have rates (the base currency has none) */
+  get selectedCodes(): string[] {
+    return [this.from, this.to].filter((code, i, codes) => {
+      return code && code !== this.conversionService.rates.base && codes.indexOf(code) === i;
+    });
+  }
+
+  /* Exports the rates, and saves the file */
+  export(): void {
+    const range = this.rangeGroup.value;
+    if (!range.start || !range.end) {
+      this.message = 'Select a range of dates to export';
+      return;
+    }
+
+    // The range picker gives the dates picked at midnight local time
+    const start = mtz(range.start).format('YYYY-MM-DD');
+    const end = mtz(range.end).format('YYYY-MM-DD');
+    const codes = this.scopeControl.value === 'all' ? null : this.selectedCodes;
+    const rows = this.conversionService.rateExportRows(codes, start, end);
+
+    if (rows.length === 0) {
+      this.message = `There are no rates to export from ${start} to ${end}`;
+      return;
+    }
+    this.message = null;
+
+    const provider = this.conversionService.rateProvider;
+    const name = `${provider.id}-rates-${codes ? codes.join('-') : 'all'}-${start}-${end}`;
+
+    switch (this.formatControl.value as RateExportFormat) {
+      case 'csv':
+        downloadFile(`${name}.csv`, formatCsv(rateExportTable(rows)), 'text/csv;charset=utf-8');
+        break;
+      case 'json':
+        downloadFile(`${name}.json`, rateExportJson(rows, provider.name, this.conversionService.rates.timeZone), 'application/json');
+        break;
+      case 'xlsx':
+        this.exporting = true;
+        createXlsx('Rates', rateExportSheet(rows))
+          .then(file => downloadFile(`${name}.xlsx`, file, XLSX_MIME_TYPE))
+          .catch(error => {
+            this.message = `Couldn't create the spreadsheet of rates from ${start} to ${end}`;
+            console.error('unable to create spreadsheet', error);
+          })
+          .finally(() => this.exporting = false);
+        break;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { describeFallback, fallbackDates, FallbackPolicy, interpolateRate } from './rate-fallback';
+
+describe('rate fallback', () => {
+  // Friday, then the following Tuesday (Monday was a holiday)
+  const dates = ['2020-03-06', '2020-03-10'];
+  const options = (policy: FallbackPolicy, maxDays = 7) => ({policy, maxDays});
+
+  it('should use the date itself when it has rates, whatever the policy', () => {
+    for (const policy of Object.values(FallbackPolicy)) {
+      expect(fallbackDates(dates, '2020-03-06', options(policy))).toEqual(['2020-03-06']);
+    }
+  });
+
+  it('should pick other dates according to the policy', () => {
+    expect(fallbackDates(dates, '2020-03-08', options(FallbackPolicy.previous))).toEqual(['2020-03-06']);
+    expect(fallbackDates(dates, '2020-03-08', options(FallbackPolicy.next))).toEqual(['2020-03-10']);
+    expect(fallbackDates(dates, '2020-03-09', options(FallbackPolicy.nearest))).toEqual(['2020-03-10']);
+    // A tie goes to the earlier rates
+    expect(fallbackDates(dates, '2020-03-08', options(FallbackPolicy.nearest))).toEqual(['2020-03-06']);
+    expect(fallbackDates(dates, '2020-03-08', options(FallbackPolicy.interpolate))).toEqual(['2020-03-06', '2020-03-10']);
+    expect(fallbackDates(dates, '2020-03-08', options(FallbackPolicy.strict))).toEqual([]);
+  });
+
+  it('should only look as many days away as allowed', () => {
+    expect(fallbackDates(dates, '2020-03-08', options(FallbackPolicy.previous, 1))).toEqual([]);
+    expect(fallbackDates(dates, '2020-03-08', options(FallbackPolicy.previous, 2))).toEqual(['2020-03-06']);
+    expect(fallbackDates(dates, '2020-03-09', options(FallbackPolicy.nearest, 1))).toEqual(['2020-03-10']);
+    // With rates on only one side, interpolation uses them as they are
+    expect(fallbackDates(dates, '2020-03-11', options(FallbackPolicy.interpolate))).toEqual(['2020-03-10']);
+    expect(fallbackDates(dates, '2020-03-11', options(FallbackPolicy.next))).toEqual([]);
+  });
+
+  it('should interpolate linearly between two rates', () => {
+    expect(interpolateRate('1.3400', '2020-03-06', '1.3800', '2020-03-10', '2020-03-07')).toBe('1.35');
+    expect(interpolateRate('1.3400', '2020-03-06', '1.3500', '2020-03-09', '2020-03-07')).toBe('1.3433333333');
+  });
+
+  it('should describe how far it looks for rates', () => {
+    expect(describeFallback('2020-03-08', options(FallbackPolicy.previous))).toBe('on 2020-03-08 or the 7 days before it');
+    expect(describeFallback('2020-03-08', options(FallbackPolicy.next, 1))).toBe('on 2020-03-08 or the day after it');
+    expect(describeFallback('2020-03-08', options(FallbackPolicy.nearest, 3))).toBe('within 3 days of 2020-03-08');
+    expect(describeFallback('2020-03-08', options(FallbackPolicy.strict))).toBe('on 2020-03-08');
+  });
+});
@@ -0,0 +1,105 @@
+import { RATE_DECIMAL_PLACES, RateBig } from './decimal-conversion';
+
+/* What a conversion does when no rates were published on its date (weekends, holidays, gaps in a series) */
+export enum FallbackPolicy {
+  /* Use the most recent earlier rates (as the providers recommend) */
+  previous = 'previous',
+  /* Use the next rates published after the date */
+  next = 'next',
+  /* Use whichever rates are closest to the date, the earlier ones on a tie */
+  nearest = 'nearest',
+  /* Interpolate linearly between the rates either side of the date */
+  interpolate = 'interpolate',
+  /* Only use rates published on the date itself */
+  strict = 'strict',
+}
+
+export const FALLBACK_POLICIES: {policy: FallbackPolicy, label: string}[] = [
+  {policy: FallbackPolicy.previous, label: 'Previous publication'},
+  {policy: FallbackPolicy.next, label: 'Next publication'},
+  {policy: FallbackPolicy.nearest, label: 'Nearest publication'},
+  {policy: FallbackPolicy.interpolate, label: 'Interpolate'},
+  {policy: FallbackPolicy.strict, label: 'None (strict)'},
+];
+
+/* How many days from the date a conversion will look for rates by default */
+export const DEFAULT_MAX_FALLBACK_DAYS = 7;
+
+/* How conversions find rates for a date without any */
+export interface FallbackOptions {
+  policy: FallbackPolicy;
+  /* How many days before or after the date rates can come from */
+  maxDays: number;
+}
+
+/* The label of a policy, for showing alongside rates it was used for */
+export function fallbackPolicyLabel(policy: FallbackPolicy): string {
+  return FALLBACK_POLICIES.find(option => option.policy === policy)?.label ?? policy;
+}
+
+/* Describes how far a conversion looks for rates, e.g. "on 2020-03-07 or the 7 days before it" */
+export function describeFallback(date: string, options: FallbackOptions): string {
+  const days = options.maxDays === 1 ? 'day' : `${options.maxDays} days`;
+  switch (options.policy) {
+    case FallbackPolicy.strict:
+      return `on ${date}`;
+    case FallbackPolicy.previous:
+      return `on ${date} or the ${days} before it`;
+    case FallbackPolicy.next:
+      return `on ${date} or the ${days} after it`;
+    default:
+      return `within ${days} of ${date}`;
+  }
+}
+
+/* Number of days from one date (YYYY-MM-DD) to another */
+export function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Picks the dates to take rates from for `date` (YYYY-MM-DD), out of the `dates` with rates (oldest first). The date
+ * itself is used if it has rates, and otherwise the policy decides, looking at most `maxDays` away. Interpolation needs
+ * the dates either side; with only one of them (e.g. for today, before its rates are published) that one is used.
+ *
+ * Returns no dates when there are no rates to use.
+ */
+export function fallbackDates(dates: string[], date: string, options: FallbackOptions): string[] {
+  if (dates.includes(date)) {
+    return [date];
+  }
+  if (options.policy === FallbackPolicy.strict) {
+    return [];
+  }
+
+  const earlier = dates.filter(other => other < date);
+  const later = dates.filter(other => other > date);
+  const previous = earlier.length && daysBetween(earlier[earlier.length - 1], date) <= options.maxDays
+    ? earlier[earlier.length - 1]
+    : null;
+  const next = later.length && daysBetween(date, later[0]) <= options.maxDays ? later[0] : null;
+
+  switch (options.policy) {
+    case FallbackPolicy.previous:
+      return previous ? [previous] : [];
+    case FallbackPolicy.next:
+      return next ? [next] : [];
+    case FallbackPolicy.nearest:
+      if (previous && next) {
+        return [daysBetween(previous, date) <= daysBetween(date, next) ? previous : next];
+      }
+      return previous || next ? [previous ?? next] : [];
+    case FallbackPolicy.interpolate:
+      return [previous, next].filter(other => other !== null);
+  }
+}
+
+/**
+ * The rate on `date` on a straight line between the rate `before` and the rate `after` (both decimal strings, with the
+ * dates they were published), rounded to `RATE_DECIMAL_PLACES`.
+ */
+export function interpolateRate(before: string, beforeDate: string, after: string, afterDate: string, date: string): string {
+  const start = new RateBig(before);
+  const change = new RateBig(after).minus(start).times(daysBetween(beforeDate, date)).div(daysBetween(beforeDate, afterDate));
+  return start.plus(change).round(RATE_DECIMAL_PLACES).toString();
+}
@@ -0,0 +1,94 @@
+import { inject, InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { BocValetRateProvider } from './boc-valet-rate-provider';
+import { EcbRateProvider } from './ecb-rate-provider';
+import { PublicationSchedule } from './publication-calendar';
+
+/**
+ * How the rates in a `RateHistory` are quoted:
+ *
+ * - `direct`: the value of 1 unit of the currency in the base currency (e.g. the Bank of Canada publishes 1 USD = 1.34
+ *   CAD as `rates['USD'] = '1.34'`)
+ * - `indirect`: the amount of the currency that 1 unit of the base currency buys (e.g. the ECB publishes 1 EUR = 1.11
+ *   USD as `rates['USD'] = '1.11'`)
+ */
+export type RateQuotation = 'direct' | 'indirect';
+
+/**
+ * Rates published for a single day, quoted against the provider's base currency (see `RateQuotation`).
+ *
+ * Rates are kept as the decimal strings the provider published, so no precision is lost before a conversion is made.
+ */
+export interface RateObservation {
+  /* Date the rates were published, as YYYY-MM-DD in the provider's time zone */
+  date: string;
+  /* Rates keyed by currency alpha code */
+  rates: {[code: string]: string};
+}
+
+/**
+ * The complete history of rates available from a provider, in a form that doesn't depend on how the provider
+ * structures its responses.
+ */
+export interface RateHistory {
+  /* Currency that every rate is quoted against (e.g. 'CAD') */
+  base: string;
+  /* Time zone the observation dates are given in (e.g. 'America/Toronto') */
+  timeZone: string;
+  /* How each rate relates the currency to the base currency */
+  quotation: RateQuotation;
+  /* Observations, ordered from oldest to newest */
+  observations: RateObservation[];
+}
+
+/* Periods a provider can publish official average rates over */
+export type RatePeriod = 'monthly' | 'annual';
+
+/**
+ * A source of exchange rates. `CurrencyConversionService` only talks to the provider through this interface, so
+ * that sources can be swapped (or replaced with fixtures in tests) without changes elsewhere.
+ *
+ * The provider's publication schedule is used to work out when new rates should be available.
+ */
+export interface RateProvider extends PublicationSchedule {
+  /* Short, unique identifier for the source (e.g. 'boc') */
+  readonly id: string;
+  /* Human readable name of the source (e.g. 'Bank of Canada') */
+  readonly name: string;
+  /* Currency that every rate is quoted against */
+  readonly baseCurrency: string;
+
+  /* The provider's identifier for the series of rates for a currency (e.g. 'FXUSDCAD') */
+  seriesId(code: string): string;
+
+  /* Provides the alpha codes of every currency that rates are available for, including the base currency */
+  getAvailableCurrencies(): Observable<string[]>;
+  /**
+   * Provides the history of rates. When `startDate` (YYYY-MM-DD) is given, only observations on or after that date
+   * are needed (the provider may still return older ones).
+   */
+  getRateHistory(startDate?: string): Observable<RateHistory>;
+  /**
+   * Provides the provider's official average rates over each month or year, with each observation dated the first day
+   * of its period. Only implemented by providers that publish averages.
+   */
+  getAverageRateHistory?(period: RatePeriod): Observable<RateHistory>;
+}
+
+/**
+ * The rate provider used by `CurrencyConversionService`. Defaults to the Bank of Canada's Valet API, but can be
+ * overridden in a module's (or a test's) providers.
+ */
+export const RATE_PROVIDER = new InjectionToken<RateProvider>('RateProvider', {
+  providedIn: 'root',
+  factory: () => inject(BocValetRateProvider),
+});
+
+/**
+ * Every rate provider the user can choose between. The first entry should match the default `RATE_PROVIDER`.
+ */
+export const RATE_PROVIDERS = new InjectionToken<RateProvider[]>('RateProviders', {
+  providedIn: 'root',
+  factory: () => [inject(BocValetRateProvider), inject(EcbRateProvider)],
+});
@@ -0,0 +1,37 @@
+import { rateStatistics } from './rate-statistics';
+
+describe('rate statistics', () => {
+  it('should summarize daily rates', () => {
+    const stats = rateStatistics([
+      {date: '2020-03-02', rate: '1.3400'},
+      {date: '2020-03-03', rate: '1.3300'},
+      {date: '2020-03-04', rate: '1.3500'},
+      {date: '2020-03-05', rate: '1.3600'},
+    ]);
+
+    expect(stats.start).toBe('2020-03-02');
+    expect(stats.end).toBe('2020-03-05');
+    expect(stats.count).toBe(4);
+    expect(stats.min).toEqual({date: '2020-03-03', rate: '1.3300'});
+    expect(stats.max).toEqual({date: '2020-03-05', rate: '1.3600'});
+    expect(stats.mean).toBe('1.345');
+    expect(stats.median).toBe('1.345');
+    // sqrt(0.000125 / 4)
+    expect(stats.standardDeviation).toBe('0.0111803399');
+    expect(stats.percentChange).toBe('1.4925373134');
+  });
+
+  it('should take the middle rate as the median of an odd number of rates', () => {
+    const stats = rateStatistics([
+      {date: '2020-03-02', rate: '1.5'},
+      {date: '2020-03-03', rate: '1.1'},
+      {date: '2020-03-04', rate: '1.2'},
+    ]);
+    expect(stats.median).toBe('1.2');
+    expect(stats.mean).toBe('1.2666666667');
+  });
+
+  it('should have no statistics without rates', () => {
+    expect(rateStatistics([])).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import * as Big from 'big.js';
+
+import { RatePoint } from './currency-conversion.service';
+import { percentChange, RATE_DECIMAL_PLACES, RateBig } from './decimal-conversion';
+
+/* Summary of the rates between a pair of currencies over a range of dates. Rates are decimal strings. */
+export interface RateStatistics {
+  /* First and last dates (YYYY-MM-DD) with observations in the range */
+  start: string;
+  end: string;
+  /* Number of observations in the range */
+  count: number;
+  /* The lowest and highest rates, and the dates they were observed */
+  min: RatePoint;
+  max: RatePoint;
+  /* The average of the daily rates (the "average of period" rate) */
+  mean: string;
+  median: string;
+  /* Population standard deviation of the daily rates */
+  standardDeviation: string;
+  /* Change from the first rate in the range to the last, in percent */
+  percentChange: string;
+}
+
+/**
+ * Works out statistics for a list of daily rates (oldest first), or returns null if there are none. Calculations are
+ * done in decimal arithmetic, and results are rounded to `RATE_DECIMAL_PLACES`.
+ */
+export function rateStatistics(points: RatePoint[]): RateStatistics | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const rates = points.map(point => new RateBig(point.rate));
+  const count = new RateBig(points.length);
+  const mean = rates.reduce((sum, rate) => sum.plus(rate), new RateBig(0)).div(count);
+
+  const sorted = [...rates].sort((a, b) => a.cmp(b));
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : sorted[middle - 1].plus(sorted[middle]).div(2);
+
+  const variance = rates.reduce((sum, rate) => sum.plus(rate.minus(mean).pow(2)), new RateBig(0)).div(count);
+
+  let min = points[0];
+  let max = points[0];
+  for (const point of points) {
+    if (new RateBig(point.rate).lt(min.rate)) {
+      min = point;
+    }
+    if (new RateBig(point.rate).gt(max.rate)) {
+      max = point;
+    }
+  }
+
+  return {
+    start: points[0].date,
+    end: points[points.length - 1].date,
+    count: points.length,
+    min,
+    max,
+    mean: mean.round(RATE_DECIMAL_PLACES, Big.roundHalfEven).toFixed(),
+    median: median.round(RATE_DECIMAL_PLACES, Big.roundHalfEven).toFixed(),
+    standardDeviation: variance.sqrt().round(RATE_DECIMAL_PLACES, Big.roundHalfEven).toFixed(),
+    percentChange: percentChange(points[0].rate, points[points.length - 1].rate),
+  };
+}
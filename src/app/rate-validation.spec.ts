@@ -0,0 +1,40 @@
+import { isDecimalString, RateDataError, validateRateHistory } from './rate-validation';
+import { RateHistory } from './rate-provider';
+
+describe('rate validation', () => {
+  function history(observations): RateHistory {
+    return {base: 'CAD', timeZone: 'America/Toronto', quotation: 'direct', observations};
+  }
+
+  it('should recognize decimal strings', () => {
+    expect(isDecimalString('1.3400')).toBeTrue();
+    expect(isDecimalString('120')).toBeTrue();
+    expect(isDecimalString('0')).toBeFalse();
+    expect(isDecimalString('-1.2')).toBeFalse();
+    expect(isDecimalString('1,34')).toBeFalse();
+  });
+
+  it('should accept a valid history', () => {
+    const valid = history([
+      {date: '2020-03-02', rates: {USD: '1.3400'}},
+      {date: '2020-03-03', rates: {USD: '1.3300'}},
+    ]);
+    expect(validateRateHistory(valid)).toBe(valid);
+  });
+
+  it('should reject an empty history', () => {
+    expect(() => validateRateHistory(history([]))).toThrowError(RateDataError, /no exchange rate/);
+  });
+
+  it('should reject observations out of order', () => {
+    expect(() => validateRateHistory(history([
+      {date: '2020-03-03', rates: {}},
+      {date: '2020-03-02', rates: {}},
+    ]))).toThrowError(RateDataError, /out of order/);
+  });
+
+  it('should reject invalid rates', () => {
+    expect(() => validateRateHistory(history([{date: '2020-03-02', rates: {USD: 1.34}}])))
+      .toThrowError(RateDataError, /USD/);
+  });
+});
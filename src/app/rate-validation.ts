@@ -0,0 +1,58 @@
+import { RateHistory } from './rate-provider';
+
+/**
+ * Thrown when a rate provider receives data that isn't in the format it expects (e.g. the source changed the shape of
+ * its responses). The message describes what was wrong, and is meant to be shown to the user.
+ */
+export class RateDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateDataError';
+  }
+}
+
+/* Whether a string is a date formatted as YYYY-MM-DD */
+export function isIsoDate(value: string): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/* Whether a string is a plain, positive decimal number (e.g. "1.3400"), as rates are published */
+export function isDecimalString(value: string): boolean {
+  return /^\d+(\.\d+)?$/.test(value) && Number(value) > 0;
+}
+
+/**
+ * Checks a normalized rate history before it's used for conversions, throwing a `RateDataError` describing the first
+ * problem found. Observations must have valid dates, be in order, and have at least one observation.
+ */
+export function validateRateHistory(history: RateHistory): RateHistory {
+  if (!Array.isArray(history?.observations) || history.observations.length === 0) {
+    throw new RateDataError('no exchange rate observations were received');
+  }
+
+  let previousDate = '';
+  for (const observation of history.observations) {
+    if (!isIsoDate(observation?.date) || observation.date <= previousDate) {
+      throw new RateDataError(`observation dates are invalid or out of order near "${observation?.date}"`);
+    }
+    for (const [code, rate] of Object.entries(observation.rates ?? {})) {
+      if (typeof rate !== 'string' || !isDecimalString(rate)) {
+        throw new RateDataError(`the ${code} rate on ${observation.date} is invalid`);
+      }
+    }
+    previousDate = observation.date;
+  }
+
+  return history;
+}
+
+/**
+ * Thrown when a rate provider's data is well formed, but doesn't include enough of what we asked for to be useful
+ * (e.g. the list of currencies came back, but none of them have rates).
+ */
+export class PartialRateDataError extends RateDataError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PartialRateDataError';
+  }
+}
@@ -0,0 +1,44 @@
+import { Provider } from '@angular/core';
+import { of } from 'rxjs';
+
+import { RateHistory, RateProvider, RATE_PROVIDER, RATE_PROVIDERS } from '../rate-provider';
+
+/* Rates against CAD on two days, with JPY only published on the first */
+export const FIXTURE_HISTORY: RateHistory = {
+  base: 'CAD',
+  timeZone: 'America/Toronto',
+  quotation: 'direct',
+  observations: [
+    {date: '2020-03-02', rates: {USD: '1.3400', EUR: '1.4800', JPY: '0.012500'}},
+    {date: '2020-03-03', rates: {USD: '1.3300', EUR: '1.4700'}},
+  ],
+};
+
+/**
+ * A rate provider for tests (with the id 'fixture'), which publishes every day and serves `history`. Its currencies
+ * are the base currency and every currency with a rate in `history`.
+ */
+export function fixtureRateProvider(history: RateHistory = FIXTURE_HISTORY): RateProvider {
+  const codes = new Set(history.observations.flatMap(observation => Object.keys(observation.rates)));
+
+  return {
+    id: 'fixture',
+    name: 'Fixture',
+    baseCurrency: history.base,
+    timeZone: history.timeZone,
+    publicationHour: 16,
+    publicationMinute: 30,
+    isPublicationDay: () => true,
+    seriesId: code => `FX${code}${history.base}`,
+    getAvailableCurrencies: () => of([history.base, ...codes]),
+    getRateHistory: () => of(history),
+  };
+}
+
+/* Test module providers which make `provider` the only source of rates */
+export function provideRateProvider(provider: RateProvider): Provider[] {
+  return [
+    {provide: RATE_PROVIDER, useValue: provider},
+    {provide: RATE_PROVIDERS, useValue: [provider]},
+  ];
+}
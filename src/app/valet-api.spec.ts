@@ -0,0 +1,33 @@
+import { parseValetGroupResponse, parseValetObservationsResponse } from './valet-api';
+import { RateDataError } from './rate-validation';
+
+describe('Valet API responses', () => {
+  it('should accept a group response', () => {
+    const rsp = {groupDetails: {name: 'FX_RATES_DAILY', groupSeries: {FXUSDCAD: {label: 'USD/CAD'}}}};
+    expect(parseValetGroupResponse(rsp)).toBe(rsp as any);
+  });
+
+  it('should reject a group response without series', () => {
+    expect(() => parseValetGroupResponse({groupDetails: {name: 'FX_RATES_DAILY'}}))
+      .toThrowError(RateDataError, /groupSeries/);
+    expect(() => parseValetGroupResponse('<html>')).toThrowError(RateDataError);
+  });
+
+  it('should accept observations', () => {
+    const rsp = {observations: [{d: '2020-03-02', FXUSDCAD: {v: '1.3400'}}]};
+    expect(parseValetObservationsResponse(rsp)).toBe(rsp as any);
+  });
+
+  it('should reject observations without a list', () => {
+    expect(() => parseValetObservationsResponse({data: []})).toThrowError(RateDataError, /observations/);
+  });
+
+  it('should reject observations with a bad date or value', () => {
+    expect(() => parseValetObservationsResponse({observations: [{date: '2020-03-02'}]}))
+      .toThrowError(RateDataError, /date/);
+    expect(() => parseValetObservationsResponse({observations: [{d: '2020-03-02', FXUSDCAD: {value: '1.34'}}]}))
+      .toThrowError(RateDataError, /FXUSDCAD/);
+    expect(() => parseValetObservationsResponse({observations: [{d: '2020-03-02', FXUSDCAD: {v: 'N/A'}}]}))
+      .toThrowError(RateDataError, /FXUSDCAD/);
+  });
+});
@@ -0,0 +1,88 @@
+import { isDecimalString, isIsoDate, RateDataError } from './rate-validation';
+
+/**
+ * Types for the parts of the Bank of Canada's Valet API (https://www.bankofcanada.ca/valet/docs) that the app uses,
+ * along with functions to check that a response actually has that shape before anything reads from it.
+ */
+
+/* Description of a single series (e.g. "FXUSDCAD") */
+export interface ValetSeriesDetail {
+  label: string;
+  description?: string;
+  link?: string;
+}
+
+/* Response from `/groups/{group}/json` */
+export interface ValetGroupResponse {
+  groupDetails: {
+    name: string;
+    label?: string;
+    description?: string;
+    groupSeries: {[seriesId: string]: ValetSeriesDetail};
+  };
+}
+
+/* A single value of a series */
+export interface ValetValue {
+  v: string;
+}
+
+/**
+ * One day of observations, e.g. `{d: '2020-03-02', FXUSDCAD: {v: '1.3400'}, ...}`. A series can be missing from
+ * days on which it wasn't published.
+ */
+export interface ValetObservation {
+  d: string;
+  [seriesId: string]: ValetValue | string;
+}
+
+/* Response from `/observations/group/{group}/json` */
+export interface ValetObservationsResponse {
+  seriesDetail?: {[seriesId: string]: ValetSeriesDetail};
+  observations: ValetObservation[];
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a response from the groups endpoint, throwing a `RateDataError` describing the first problem found.
+ */
+export function parseValetGroupResponse(json: unknown): ValetGroupResponse {
+  if (!isObject(json) || !isObject(json.groupDetails)) {
+    throw new RateDataError('Valet group response has no "groupDetails"');
+  }
+  if (!isObject(json.groupDetails.groupSeries)) {
+    throw new RateDataError('Valet group response has no "groupDetails.groupSeries"');
+  }
+
+  return json as unknown as ValetGroupResponse;
+}
+
+/**
+ * Checks a response from the group observations endpoint, throwing a `RateDataError` describing the first problem
+ * found.
+ */
+export function parseValetObservationsResponse(json: unknown): ValetObservationsResponse {
+  if (!isObject(json) || !Array.isArray(json.observations)) {
+    throw new RateDataError('Valet observations response has no "observations" list');
+  }
+
+  json.observations.forEach((observation: unknown, i: number) => {
+    if (!isObject(observation) || typeof observation.d !== 'string' || !isIsoDate(observation.d)) {
+      throw new RateDataError(`Valet observation ${i} has no valid date ("d")`);
+    }
+
+    for (const [key, value] of Object.entries(observation)) {
+      if (key === 'd') {
+        continue;
+      }
+      if (!isObject(value) || typeof value.v !== 'string' || !isDecimalString(value.v)) {
+        throw new RateDataError(`Valet observation for ${observation.d} has an invalid value for ${key}`);
+      }
+    }
+  });
+
+  return json as unknown as ValetObservationsResponse;
+}
@@ -0,0 +1,23 @@
+import { workbookZip, worksheetXml } from './xlsx';
+
+describe('xlsx', () => {
+  it('should write text as inline strings and numbers as values', () => {
+    const xml = worksheetXml([['date', 'rate'], ['2020-03-02 <Mon>', 1.34]]);
+
+    expect(xml).toContain('<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">date</t></is></c>');
+    expect(xml).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">2020-03-02 &lt;Mon&gt;</t></is></c>');
+    expect(xml).toContain('<c r="B2"><v>1.34</v></c>');
+  });
+
+  it('should name columns past Z', () => {
+    const row = Array.from({length: 28}, (_, i) => i);
+    expect(worksheetXml([row])).toContain('<c r="AB1"><v>27</v></c>');
+  });
+
+  it('should package a workbook', async () => {
+    const zip = workbookZip('Rates', [['a'], [1]]);
+
+    expect(Object.keys(zip.files)).toContain('xl/worksheets/sheet1.xml');
+    expect(await zip.file('xl/workbook.xml').async('string')).toContain('<sheet name="Rates" sheetId="1" r:id="rId1"/>');
+  });
+});
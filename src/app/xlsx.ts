@@ -0,0 +1,76 @@
+import * as JSZip from 'jszip';
+
+/* A cell of a spreadsheet: text, or a number */
+export type XlsxCell = string | number;
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`;
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/* Column letters for a (zero-based) column index, e.g. 0 -> "A", 27 -> "AB" */
+function columnName(index: number): string {
+  let name = '';
+  for (let i = index + 1; i > 0; i = Math.floor((i - 1) / 26)) {
+    name = String.fromCharCode(65 + (i - 1) % 26) + name;
+  }
+  return name;
+}
+
+/* The XML for a worksheet holding the given rows */
+export function worksheetXml(rows: XlsxCell[][]): string {
+  const rowsXml = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      return typeof cell === 'number'
+        ? `<c r="${ref}"><v>${cell}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<sheetData>${rowsXml.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * The parts of an Excel workbook with a single sheet holding the given rows. Only what's needed to hold plain values
+ * is written (no styles or shared strings), which every spreadsheet program can open.
+ */
+export function workbookZip(sheetName: string, rows: XlsxCell[][]): JSZip {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES);
+  zip.file('_rels/.rels', PACKAGE_RELATIONSHIPS);
+  zip.file('xl/workbook.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+    + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', WORKBOOK_RELATIONSHIPS);
+  zip.file('xl/worksheets/sheet1.xml', worksheetXml(rows));
+  return zip;
+}
+
+/* Creates an Excel workbook (.xlsx) with a single sheet holding the given rows, entirely in the browser */
+export function createXlsx(sheetName: string, rows: XlsxCell[][]): Promise<Blob> {
+  return workbookZip(sheetName, rows).generateAsync({type: 'blob', mimeType: XLSX_MIME_TYPE, compression: 'DEFLATE'});
+}